@@ -1,17 +1,186 @@
 import { Router, Request, Response } from 'express';
 import { TaskRepository } from '../database/task-repository';
+import { SyncRunRepository } from '../database/sync-run-repository';
+import { ProjectRepository } from '../database/project-repository';
+import { IterationRepository } from '../database/iteration-repository';
 import { TaskProcessorService } from '../services/task-processor';
 import { PollingService } from '../services/polling-service';
+import { WebhookService } from '../services/webhook-service';
+import { TaskWriteService, TaskUpdateError } from '../services/task-writer';
+import { BulkJobService, BulkJobError } from '../services/bulk-job-service';
+import { WebhookRepository } from '../database/webhook-repository';
+import { BulkJobRepository } from '../database/bulk-job-repository';
+import { verifyWebhookSignature } from '../utils/webhook-signature';
+import { verifyBearerToken } from '../utils/api-token';
+import { GitHubGraphQLError } from '../utils/github-client';
+import { TaskEventRepository } from '../database/task-event-repository';
+import { TaskUpdate } from '../types/task';
+import { TaskEventFilters, TaskEventType } from '../types/task-event';
+import { config } from '../config';
 
 const router = Router();
 const taskRepository = new TaskRepository();
+const syncRunRepository = new SyncRunRepository();
+const projectRepository = new ProjectRepository();
+const iterationRepository = new IterationRepository();
+const webhookRepository = new WebhookRepository();
+const bulkJobRepository = new BulkJobRepository();
+const taskEventRepository = new TaskEventRepository();
 const taskProcessor = new TaskProcessorService();
 
 // Polling service instance (will be injected)
 let pollingService: PollingService | null = null;
+let webhookService: WebhookService | null = null;
+let taskWriteService: TaskWriteService | null = null;
+let bulkJobService: BulkJobService | null = null;
 
 export function setPollingService(service: PollingService) {
   pollingService = service;
+  webhookService = new WebhookService(service);
+  taskWriteService = new TaskWriteService(service);
+  bulkJobService = new BulkJobService(taskWriteService);
+  bulkJobService.recoverInterruptedJobs().catch((error) => {
+    console.error('✗ Failed to recover bulk jobs:', error.message);
+  });
+}
+
+/**
+ * Process webhook deliveries that stalled, e.g. because a previous process
+ * stopped part way through; call once the polling service knows its projects
+ */
+export function resumeWebhookDeliveries() {
+  webhookService?.resumeUnfinishedDeliveries().catch((error) => {
+    console.error('✗ Failed to resume webhook deliveries:', error.message);
+  });
+}
+
+/**
+ * Resolve the optional ?project=org/number filter to a project ID.
+ * Sends a 404 and returns undefined when the project is unknown.
+ */
+async function resolveProjectFilter(
+  req: Request,
+  res: Response
+): Promise<number | null | undefined> {
+  const slug = req.query.project as string | undefined;
+  if (!slug) {
+    return null;
+  }
+
+  const project = await projectRepository.findBySlug(slug);
+  if (!project) {
+    res.status(404).json({
+      error: 'Project not found',
+      message: `Unknown project "${slug}", expected "org/number"`,
+    });
+    return undefined;
+  }
+
+  return project.id;
+}
+
+/**
+ * Read an optional positive integer query parameter, capped at max.
+ * Sends a 400 and returns undefined when the value is not a positive integer.
+ */
+function parsePositiveIntParam(
+  req: Request,
+  res: Response,
+  name: string,
+  defaultValue: number,
+  max: number
+): number | undefined {
+  const value = req.query[name];
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+
+  if (typeof value !== 'string' || !/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+    res.status(400).json({
+      error: `Invalid ${name}`,
+      message: `${name} must be a positive integer (at most ${max})`,
+    });
+    return undefined;
+  }
+
+  return Math.min(parseInt(value, 10), max);
+}
+
+/**
+ * Check the write token on endpoints that change data on GitHub.
+ * Sends a 503 or 401 and returns false when the request may not write.
+ */
+function requireWriteToken(req: Request, res: Response): boolean {
+  if (!config.api.writeToken) {
+    res.status(503).json({
+      error: 'Editing not configured',
+      message: 'Set API_WRITE_TOKEN to enable editing tasks from the dashboard',
+    });
+    return false;
+  }
+
+  if (!verifyBearerToken(config.api.writeToken, req.get('Authorization'))) {
+    res.status(401).json({
+      error: 'Invalid write token',
+    });
+    return false;
+  }
+
+  return true;
+}
+
+const TASK_EVENT_TYPES: TaskEventType[] = [
+  'title_changed',
+  'state_changed',
+  'status_changed',
+  'priority_changed',
+  'due_date_changed',
+  'estimate_changed',
+];
+
+/**
+ * Read the task event filters shared by the event endpoints: ?project=,
+ * ?type= (comma-separated), ?repository=, ?since=, ?until= and ?limit=
+ * (default 100, at most 1000). Sends a 400 or 404 and returns undefined
+ * when a filter is invalid.
+ */
+async function parseEventFilters(req: Request, res: Response): Promise<TaskEventFilters | undefined> {
+  const projectId = await resolveProjectFilter(req, res);
+  if (projectId === undefined) return undefined;
+
+  const types = req.query.type ? String(req.query.type).split(',').map((t) => t.trim()) : null;
+  const unknownType = types?.find((t) => !TASK_EVENT_TYPES.includes(t as TaskEventType));
+  if (unknownType !== undefined) {
+    res.status(400).json({
+      error: 'Invalid type',
+      message: `Unknown event type "${unknownType}", expected one of: ${TASK_EVENT_TYPES.join(', ')}`,
+    });
+    return undefined;
+  }
+
+  const dates: Record<'since' | 'until', Date | null> = { since: null, until: null };
+  for (const name of ['since', 'until'] as const) {
+    const value = req.query[name];
+    if (!value) continue;
+    const date = new Date(String(value));
+    if (Number.isNaN(date.getTime())) {
+      res.status(400).json({
+        error: `Invalid ${name}`,
+        message: `${name} must be a date (YYYY-MM-DD) or timestamp`,
+      });
+      return undefined;
+    }
+    dates[name] = date;
+  }
+
+  return {
+    projectId,
+    types: types as TaskEventType[] | null,
+    repository: (req.query.repository as string) || null,
+    since: dates.since,
+    until: dates.until,
+    limit: Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 1000),
+  };
 }
 
 /**
@@ -25,13 +194,37 @@ router.get('/health', (req: Request, res: Response) => {
   });
 });
 
+/**
+ * GET /api/projects
+ * List the monitored projects
+ */
+router.get('/projects', async (req: Request, res: Response) => {
+  try {
+    const projects = await projectRepository.getProjects();
+
+    res.json({
+      count: projects.length,
+      projects,
+    });
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+    res.status(500).json({
+      error: 'Failed to fetch projects',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 /**
  * GET /api/stats
- * Get current task statistics
+ * Get current task statistics (?project=org/number to filter)
  */
 router.get('/stats', async (req: Request, res: Response) => {
   try {
-    const tasks = await taskRepository.getTasksWithAssignees();
+    const projectId = await resolveProjectFilter(req, res);
+    if (projectId === undefined) return;
+
+    const tasks = await taskRepository.getTasksWithAssignees(projectId);
     const stats = taskProcessor.calculateStats(tasks);
     const summary = taskProcessor.getSummaryReport(tasks);
 
@@ -41,6 +234,8 @@ router.get('/stats', async (req: Request, res: Response) => {
         open: stats.open,
         closed: stats.closed,
         overdue: stats.overdue,
+        drafts: stats.drafts,
+        noLinkedPR: stats.noLinkedPR,
         noTechHandoffETA: stats.noTechHandoffETA,
         noTechHandoffETAByPriority: {
           p0: stats.noTechHandoffETAByPriority.p0,
@@ -74,15 +269,33 @@ router.get('/stats', async (req: Request, res: Response) => {
  */
 router.get('/tasks', async (req: Request, res: Response) => {
   try {
-    const { state, overdue, repository, assignee } = req.query;
+    const {
+      state,
+      type,
+      overdue,
+      repository,
+      assignee,
+      label,
+      milestone,
+      author,
+      issueType,
+      developmentState,
+      field,
+    } = req.query;
+    const projectId = await resolveProjectFilter(req, res);
+    if (projectId === undefined) return;
 
-    let tasks = await taskRepository.getTasksWithAssignees();
+    let tasks = await taskRepository.getTasksWithAssignees(projectId);
 
     // Apply filters
     if (state) {
       tasks = tasks.filter((t) => t.state === state);
     }
 
+    if (type) {
+      tasks = tasks.filter((t) => t.type === type);
+    }
+
     if (overdue === 'true') {
       tasks = tasks.filter((t) => {
         return (
@@ -101,6 +314,35 @@ router.get('/tasks', async (req: Request, res: Response) => {
       tasks = tasks.filter((t) => t.assignees.includes(assignee as string));
     }
 
+    if (label) {
+      tasks = tasks.filter((t) => t.labels.includes(label as string));
+    }
+
+    if (milestone) {
+      tasks = tasks.filter((t) => t.milestone === milestone);
+    }
+
+    if (author) {
+      tasks = tasks.filter((t) => t.author === author);
+    }
+
+    if (issueType) {
+      tasks = tasks.filter((t) => t.issueType === issueType);
+    }
+
+    if (developmentState) {
+      tasks = tasks.filter((t) => t.developmentState === developmentState);
+    }
+
+    // Project field filters: ?field[Area]=Backend&field[Customer]=Acme
+    if (field && typeof field === 'object' && !Array.isArray(field)) {
+      const filters: Record<string, string> = {};
+      for (const [name, value] of Object.entries(field)) {
+        filters[name] = String(value);
+      }
+      tasks = taskProcessor.filterByFields(tasks, filters);
+    }
+
     res.json({
       count: tasks.length,
       tasks,
@@ -114,13 +356,264 @@ router.get('/tasks', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PATCH /api/tasks/:id
+ * Set a task's status, priority, due date (YYYY-MM-DD), assignees or labels
+ * on GitHub, by project item ID. Null clears a field. Requires the write token.
+ */
+router.patch('/tasks/:id', async (req: Request, res: Response) => {
+  try {
+    if (!requireWriteToken(req, res)) return;
+
+    if (!taskWriteService) {
+      return res.status(500).json({
+        error: 'Polling service not initialized',
+      });
+    }
+
+    const body = req.body ?? {};
+    const update: TaskUpdate = {};
+    for (const key of ['status', 'priority', 'dueDate'] as const) {
+      if (body[key] === undefined) continue;
+      if (body[key] !== null && typeof body[key] !== 'string') {
+        return res.status(400).json({
+          error: 'Invalid update',
+          message: `${key} must be a string or null`,
+        });
+      }
+      update[key] = body[key];
+    }
+    for (const key of ['assignees', 'addLabels', 'removeLabels'] as const) {
+      if (body[key] === undefined) continue;
+      if (!Array.isArray(body[key]) || !body[key].every((a: unknown) => typeof a === 'string')) {
+        return res.status(400).json({
+          error: 'Invalid update',
+          message: key === 'assignees'
+            ? 'assignees must be an array of GitHub usernames'
+            : `${key} must be an array of label names`,
+        });
+      }
+      update[key] = body[key];
+    }
+    if (Object.keys(update).length === 0) {
+      return res.status(400).json({
+        error: 'Invalid update',
+        message: 'Nothing to update; send status, priority, dueDate, assignees, addLabels or removeLabels',
+      });
+    }
+
+    const task = await taskWriteService.updateTask(req.params.id, update);
+
+    res.json({ task });
+  } catch (error) {
+    if (error instanceof TaskUpdateError) {
+      return res.status(error.status).json({
+        error: 'Failed to update task',
+        message: error.message,
+      });
+    }
+    // GitHub rejected the change, e.g. an unknown user or missing permission
+    if (error instanceof GitHubGraphQLError) {
+      return res.status(422).json({
+        error: 'GitHub rejected the update',
+        message: error.message,
+      });
+    }
+    console.error('Error updating task:', error);
+    res.status(500).json({
+      error: 'Failed to update task',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/tasks/removed
+ * Tasks whose item left the board, most recently removed first
+ */
+router.get('/tasks/removed', async (req: Request, res: Response) => {
+  try {
+    const projectId = await resolveProjectFilter(req, res);
+    if (projectId === undefined) return;
+
+    const tasks = await taskRepository.getRemovedTasks(projectId);
+
+    res.json({
+      count: tasks.length,
+      tasks,
+    });
+  } catch (error) {
+    console.error('Error fetching removed tasks:', error);
+    res.status(500).json({
+      error: 'Failed to fetch removed tasks',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/tasks/:id/restore
+ * Bring back a removed task, by project item ID, if the item is on the
+ * board on GitHub. Requires the write token.
+ */
+router.post('/tasks/:id/restore', async (req: Request, res: Response) => {
+  try {
+    if (!requireWriteToken(req, res)) return;
+
+    if (!taskWriteService) {
+      return res.status(500).json({
+        error: 'Polling service not initialized',
+      });
+    }
+
+    const task = await taskWriteService.restoreTask(req.params.id);
+
+    res.json({ task });
+  } catch (error) {
+    if (error instanceof TaskUpdateError) {
+      return res.status(error.status).json({
+        error: 'Failed to restore task',
+        message: error.message,
+      });
+    }
+    console.error('Error restoring task:', error);
+    res.status(500).json({
+      error: 'Failed to restore task',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/bulk-jobs
+ * Apply one action to many tasks: { action, value, taskIds }. The job runs
+ * in the background; poll GET /api/bulk-jobs/:id for per-task results.
+ * Requires the write token.
+ */
+router.post('/bulk-jobs', async (req: Request, res: Response) => {
+  try {
+    if (!requireWriteToken(req, res)) return;
+
+    if (!bulkJobService) {
+      return res.status(500).json({
+        error: 'Polling service not initialized',
+      });
+    }
+
+    const body = req.body ?? {};
+    const job = await bulkJobService.startJob(body.action, body.value, body.taskIds);
+
+    res.status(202).json({ job });
+  } catch (error) {
+    if (error instanceof BulkJobError) {
+      return res.status(error.status).json({
+        error: 'Failed to start bulk job',
+        message: error.message,
+      });
+    }
+    console.error('Error starting bulk job:', error);
+    res.status(500).json({
+      error: 'Failed to start bulk job',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/bulk-jobs
+ * Most recent bulk jobs, without their items (?limit=, default 20)
+ */
+router.get('/bulk-jobs', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+    const jobs = await bulkJobRepository.getRecentJobs(limit);
+
+    res.json({
+      count: jobs.length,
+      jobs,
+    });
+  } catch (error) {
+    console.error('Error fetching bulk jobs:', error);
+    res.status(500).json({
+      error: 'Failed to fetch bulk jobs',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/bulk-jobs/:id
+ * A bulk job with the result of each task
+ */
+router.get('/bulk-jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const job = Number.isNaN(id) ? null : await bulkJobRepository.getJob(id);
+    if (!job) {
+      return res.status(404).json({
+        error: 'Bulk job not found',
+      });
+    }
+
+    res.json({ job });
+  } catch (error) {
+    console.error('Error fetching bulk job:', error);
+    res.status(500).json({
+      error: 'Failed to fetch bulk job',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/bulk-jobs/:id/undo
+ * Start a job restoring the values the tasks had before job :id changed
+ * them. Requires the write token.
+ */
+router.post('/bulk-jobs/:id/undo', async (req: Request, res: Response) => {
+  try {
+    if (!requireWriteToken(req, res)) return;
+
+    if (!bulkJobService) {
+      return res.status(500).json({
+        error: 'Polling service not initialized',
+      });
+    }
+
+    const id = parseInt(req.params.id, 10);
+    if (Number.isNaN(id)) {
+      return res.status(404).json({
+        error: 'Bulk job not found',
+      });
+    }
+    const job = await bulkJobService.undoJob(id);
+
+    res.status(202).json({ job });
+  } catch (error) {
+    if (error instanceof BulkJobError) {
+      return res.status(error.status).json({
+        error: 'Failed to undo bulk job',
+        message: error.message,
+      });
+    }
+    console.error('Error undoing bulk job:', error);
+    res.status(500).json({
+      error: 'Failed to undo bulk job',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 /**
  * GET /api/tasks/overdue
  * Get all overdue tasks
  */
 router.get('/tasks/overdue', async (req: Request, res: Response) => {
   try {
-    const tasks = await taskRepository.getTasksWithAssignees();
+    const projectId = await resolveProjectFilter(req, res);
+    if (projectId === undefined) return;
+
+    const tasks = await taskRepository.getTasksWithAssignees(projectId);
     const stats = taskProcessor.calculateStats(tasks);
 
     res.json({
@@ -136,14 +629,174 @@ router.get('/tasks/overdue', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/tasks/tree
+ * Tasks arranged by parent issue and sub-issues, with rollups for parents
+ */
+router.get('/tasks/tree', async (req: Request, res: Response) => {
+  try {
+    const projectId = await resolveProjectFilter(req, res);
+    if (projectId === undefined) return;
+
+    const tasks = await taskRepository.getTasksWithAssignees(projectId);
+    const tree = taskProcessor.buildTaskTree(tasks);
+
+    res.json({
+      count: tree.length,
+      tree,
+    });
+  } catch (error) {
+    console.error('Error building task tree:', error);
+    res.status(500).json({
+      error: 'Failed to build task tree',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/tasks/:githubId/events
+ * Changes to one task's title, state, status, priority, due date and
+ * estimate, newest first (same filters as /api/events)
+ */
+router.get('/tasks/:githubId/events', async (req: Request, res: Response) => {
+  try {
+    const filters = await parseEventFilters(req, res);
+    if (!filters) return;
+
+    const events = await taskEventRepository.getEvents({ ...filters, githubId: req.params.githubId });
+
+    res.json({
+      count: events.length,
+      events,
+    });
+  } catch (error) {
+    console.error('Error fetching task events:', error);
+    res.status(500).json({
+      error: 'Failed to fetch task events',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/events
+ * Task changes across all projects, newest first (?project=, ?type=
+ * status_changed,due_date_changed, ?repository=, ?since=, ?until=, ?limit=)
+ */
+router.get('/events', async (req: Request, res: Response) => {
+  try {
+    const filters = await parseEventFilters(req, res);
+    if (!filters) return;
+
+    const events = await taskEventRepository.getEvents(filters);
+
+    res.json({
+      count: events.length,
+      events,
+    });
+  } catch (error) {
+    console.error('Error fetching events:', error);
+    res.status(500).json({
+      error: 'Failed to fetch events',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/pull-requests/metrics
+ * PRs waiting on review, PRs with failing CI, open review requests per
+ * reviewer, and time to first review, time to merge and merged PRs per week
+ * over the last ?weeks=12 weeks
+ */
+router.get('/pull-requests/metrics', async (req: Request, res: Response) => {
+  try {
+    const projectId = await resolveProjectFilter(req, res);
+    if (projectId === undefined) return;
+
+    const weeks = Math.min(Math.max(parseInt(req.query.weeks as string) || 12, 1), 104);
+    const tasks = await taskRepository.getTasksWithAssignees(projectId);
+    const metrics = taskProcessor.calculatePullRequestMetrics(tasks, weeks);
+
+    res.json({
+      weeks,
+      ...metrics,
+    });
+  } catch (error) {
+    console.error('Error calculating pull request metrics:', error);
+    res.status(500).json({
+      error: 'Failed to calculate pull request metrics',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/iterations
+ * Get sprint definitions (?project=org/number to filter)
+ */
+router.get('/iterations', async (req: Request, res: Response) => {
+  try {
+    const projectId = await resolveProjectFilter(req, res);
+    if (projectId === undefined) return;
+
+    const iterations = await iterationRepository.getIterations(projectId);
+
+    res.json({
+      count: iterations.length,
+      iterations,
+    });
+  } catch (error) {
+    console.error('Error fetching iterations:', error);
+    res.status(500).json({
+      error: 'Failed to fetch iterations',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/sprints
+ * Per-sprint committed vs. completed counts and spillover for the most
+ * recent sprints, oldest first (?limit=10, ?project=org/number)
+ */
+router.get('/sprints', async (req: Request, res: Response) => {
+  try {
+    const projectId = await resolveProjectFilter(req, res);
+    if (projectId === undefined) return;
+
+    const limit = parsePositiveIntParam(req, res, 'limit', 10, 100);
+    if (limit === undefined) return;
+
+    const sprints = await iterationRepository.getSprintReport(projectId, limit);
+
+    res.json({
+      count: sprints.length,
+      sprints,
+    });
+  } catch (error) {
+    console.error('Error fetching sprint report:', error);
+    res.status(500).json({
+      error: 'Failed to fetch sprint report',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 /**
  * GET /api/history
  * Get historical data for trend analysis
  */
 router.get('/history', async (req: Request, res: Response) => {
   try {
-    const days = parseInt(req.query.days as string) || 30;
-    const history = await taskRepository.getHistoricalData(days);
+    const projectId = await resolveProjectFilter(req, res);
+    if (projectId === undefined) return;
+
+    const days = parsePositiveIntParam(req, res, 'days', 30, 365);
+    if (days === undefined) return;
+
+    const history = await taskRepository.getHistoricalData(days, projectId);
 
     res.json({
       days,
@@ -160,7 +813,7 @@ router.get('/history', async (req: Request, res: Response) => {
 
 /**
  * POST /api/refresh
- * Manually trigger a data refresh
+ * Manually trigger a data refresh (?mode=full forces a full sync)
  */
 router.post('/refresh', async (req: Request, res: Response) => {
   try {
@@ -171,7 +824,8 @@ router.post('/refresh', async (req: Request, res: Response) => {
     }
 
     // Trigger poll asynchronously
-    pollingService.poll().catch((error) => {
+    const mode = req.query.mode === 'full' ? 'full' : undefined;
+    pollingService.poll(mode).catch((error) => {
       console.error('Error in manual refresh:', error);
     });
 
@@ -211,6 +865,143 @@ router.get('/polling/status', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/polling/runs
+ * Get recent polling runs with rate limit usage
+ */
+router.get('/polling/runs', async (req: Request, res: Response) => {
+  try {
+    const limit = parsePositiveIntParam(req, res, 'limit', 20, 200);
+    if (limit === undefined) return;
+
+    const runs = await syncRunRepository.getRecentRuns(limit);
+
+    res.json({
+      count: runs.length,
+      runs,
+    });
+  } catch (error) {
+    console.error('Error fetching polling runs:', error);
+    res.status(500).json({
+      error: 'Failed to fetch polling runs',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/webhooks/github
+ * Receive a GitHub webhook delivery (projects_v2_item, issues,
+ * pull_request, issue_comment). Answers 202 at once and updates the
+ * affected tasks in the background.
+ */
+router.post('/webhooks/github', async (req: Request, res: Response) => {
+  try {
+    if (!webhookService) {
+      return res.status(500).json({
+        error: 'Polling service not initialized',
+      });
+    }
+
+    if (!config.github.webhookSecret) {
+      return res.status(503).json({
+        error: 'Webhooks not configured',
+        message: 'Set GITHUB_WEBHOOK_SECRET to accept webhook deliveries',
+      });
+    }
+
+    const rawBody = (req as Request & { rawBody?: Buffer }).rawBody;
+    const signature = req.get('X-Hub-Signature-256');
+    if (!rawBody || !verifyWebhookSignature(config.github.webhookSecret, rawBody, signature)) {
+      return res.status(401).json({
+        error: 'Invalid signature',
+      });
+    }
+
+    const deliveryId = req.get('X-GitHub-Delivery');
+    const event = req.get('X-GitHub-Event');
+    if (!deliveryId || !event) {
+      return res.status(400).json({
+        error: 'Missing X-GitHub-Delivery or X-GitHub-Event header',
+      });
+    }
+
+    const outcome = await webhookService.acceptDelivery(deliveryId, event, req.body);
+
+    res.status(outcome === 'accepted' ? 202 : 200).json({
+      deliveryId,
+      event,
+      outcome,
+    });
+  } catch (error) {
+    console.error('Error handling webhook:', error);
+    res.status(500).json({
+      error: 'Failed to handle webhook',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/webhooks/dead-letters
+ * Webhook deliveries that failed to process (?all=true includes replayed
+ * ones). Requires the write token, since it returns the full payloads.
+ */
+router.get('/webhooks/dead-letters', async (req: Request, res: Response) => {
+  try {
+    if (!requireWriteToken(req, res)) return;
+
+    const includeReplayed = req.query.all === 'true';
+    const deadLetters = await webhookRepository.getDeadLetters(includeReplayed);
+
+    res.json({
+      count: deadLetters.length,
+      deadLetters,
+    });
+  } catch (error) {
+    console.error('Error fetching dead letters:', error);
+    res.status(500).json({
+      error: 'Failed to fetch dead letters',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/webhooks/dead-letters/:id/replay
+ * Process a failed webhook delivery again. Requires the write token.
+ */
+router.post('/webhooks/dead-letters/:id/replay', async (req: Request, res: Response) => {
+  try {
+    if (!requireWriteToken(req, res)) return;
+
+    if (!webhookService) {
+      return res.status(500).json({
+        error: 'Polling service not initialized',
+      });
+    }
+
+    const id = parseInt(req.params.id, 10);
+    const outcome = Number.isNaN(id) ? null : await webhookService.replayDeadLetter(id);
+    if (outcome === null) {
+      return res.status(404).json({
+        error: 'Dead letter not found',
+      });
+    }
+
+    res.json({
+      id,
+      outcome,
+    });
+  } catch (error) {
+    console.error('Error replaying dead letter:', error);
+    res.status(500).json({
+      error: 'Failed to replay dead letter',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 /**
  * GET /api/debug/raw-github-data
  * Debug endpoint to see raw GitHub data
@@ -223,15 +1014,16 @@ router.get('/debug/raw-github-data', async (req: Request, res: Response) => {
       });
     }
 
-    const fetcherService = (pollingService as any).fetcherService;
-    if (!fetcherService || !fetcherService.projectId) {
+    const slug = (req.query.project as string) || pollingService.getProjectSlugs()[0];
+    const fetcherService = pollingService.getFetcher(slug);
+    if (!fetcherService || !fetcherService.getProjectId()) {
       return res.status(500).json({
         error: 'Fetcher service not initialized',
       });
     }
 
     const { fetchAllProjectItems } = await import('../utils/github-graphql');
-    const items = await fetchAllProjectItems(fetcherService.projectId);
+    const items = await fetchAllProjectItems(fetcherService.getProjectId()!);
 
     // Return first 3 items for inspection
     res.json({
@@ -261,20 +1053,37 @@ router.get('/debug/raw-github-data', async (req: Request, res: Response) => {
 
 /**
  * POST /api/debug/backfill-history
- * Debug endpoint to manually trigger historical data backfill
- * This generates synthetic historical data for the past 30 days based on task creation dates
+ * Rebuild task snapshots and daily statistics from issue and PR timelines.
+ * Accepts start and end (YYYY-MM-DD, default the last 30 days) and project
+ * (org/number, default all) as query or body parameters.
  */
 router.post('/debug/backfill-history', async (req: Request, res: Response) => {
   try {
+    const param = (name: string): string | undefined =>
+      (req.query[name] as string | undefined) ?? req.body?.[name];
+
+    for (const name of ['start', 'end']) {
+      const value = param(name);
+      if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return res.status(400).json({
+          error: 'Invalid date',
+          message: `${name} must be a date in YYYY-MM-DD format`,
+        });
+      }
+    }
+
     console.log('Manual historical backfill triggered');
 
-    // Import and run the backfill function
     const { backfillHistory } = await import('../database/backfill-history');
-    await backfillHistory();
+    const results = await backfillHistory({
+      start: param('start'),
+      end: param('end'),
+      project: param('project'),
+    });
 
     res.json({
       message: 'Historical data backfill completed successfully',
-      daysGenerated: 31, // 30 days ago + today
+      results,
     });
   } catch (error) {
     console.error('Error backfilling historical data:', error);
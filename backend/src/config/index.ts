@@ -1,19 +1,172 @@
 import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
 
 dotenv.config();
 
+/**
+ * Load the GitHub App private key from the environment or a key file
+ */
+function loadAppPrivateKey(): string {
+  if (process.env.GITHUB_APP_PRIVATE_KEY) {
+    // Env vars usually carry the PEM with escaped newlines
+    return process.env.GITHUB_APP_PRIVATE_KEY.replace(/\\n/g, '\n');
+  }
+  if (process.env.GITHUB_APP_PRIVATE_KEY_PATH) {
+    return readFileSync(process.env.GITHUB_APP_PRIVATE_KEY_PATH, 'utf-8');
+  }
+  return '';
+}
+
+/**
+ * Base URLs of the REST and GraphQL APIs. GITHUB_SERVER_URL points both at
+ * a GitHub Enterprise Server instance; GITHUB_API_URL and GITHUB_GRAPHQL_URL
+ * override them individually.
+ */
+function loadApiUrls(): { apiUrl: string; graphqlUrl: string } {
+  const server = (process.env.GITHUB_SERVER_URL || '').replace(/\/$/, '');
+  const enterprise = server !== '' && !/^https?:\/\/(www\.)?github\.com$/i.test(server);
+
+  return {
+    apiUrl: (process.env.GITHUB_API_URL || (enterprise ? `${server}/api/v3` : 'https://api.github.com')).replace(/\/$/, ''),
+    graphqlUrl: process.env.GITHUB_GRAPHQL_URL || (enterprise ? `${server}/api/graphql` : 'https://api.github.com/graphql'),
+  };
+}
+
+/**
+ * Load extra trusted CA certificates (PEM) for a server with an internal CA
+ */
+function loadCaBundle(): string {
+  return process.env.GITHUB_CA_BUNDLE ? readFileSync(process.env.GITHUB_CA_BUNDLE, 'utf-8') : '';
+}
+
+const apiUrls = loadApiUrls();
+
+export interface ProjectConfig {
+  org: string;
+  number: number;
+}
+
+/**
+ * Parse the list of projects to monitor. GITHUB_PROJECTS takes a
+ * comma-separated list of "org/number" entries; without it the single
+ * GITHUB_ORG / GITHUB_PROJECT_NUMBER project is used.
+ */
+function loadProjects(): ProjectConfig[] {
+  const list = process.env.GITHUB_PROJECTS;
+  if (!list) {
+    return [
+      {
+        org: process.env.GITHUB_ORG || 'risa-labs-inc',
+        number: parseInt(process.env.GITHUB_PROJECT_NUMBER || '3', 10),
+      },
+    ];
+  }
+
+  return list
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const match = entry.match(/^([^/\s]+)\/(\d+)$/);
+      if (!match) {
+        throw new Error(`Invalid GITHUB_PROJECTS entry "${entry}", expected "org/number"`);
+      }
+      return { org: match[1], number: parseInt(match[2], 10) };
+    });
+}
+
+/**
+ * Parse "value=canonical" pairs, e.g. "Critical=P0,High=P1". Keys are
+ * matched case-insensitively.
+ */
+function parseValueMap(list: string | undefined): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const entry of (list || '').split(',')) {
+    const [from, to] = entry.split('=').map((part) => part.trim());
+    if (from && to) {
+      map[from.toLowerCase()] = to;
+    }
+  }
+  return map;
+}
+
 export const config = {
   port: parseInt(process.env.PORT || '3001', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
+  api: {
+    // Bearer token required by endpoints that write to GitHub; they are
+    // disabled when empty
+    writeToken: process.env.API_WRITE_TOKEN || '',
+  },
   database: {
     url: process.env.DATABASE_URL || 'postgresql://localhost:5432/ghmonitoring',
   },
   github: {
-    org: process.env.GITHUB_ORG || 'risa-labs-inc',
-    projectNumber: parseInt(process.env.GITHUB_PROJECT_NUMBER || '3', 10),
+    projects: loadProjects(),
+    // 'pat' uses GITHUB_TOKEN, 'app' authenticates as a GitHub App installation
+    authType: (process.env.GITHUB_AUTH_TYPE === 'app' ? 'app' : 'pat') as 'pat' | 'app',
+    token: process.env.GITHUB_TOKEN || '',
+    app: {
+      appId: process.env.GITHUB_APP_ID || '',
+      installationId: process.env.GITHUB_APP_INSTALLATION_ID || '',
+      privateKey: loadAppPrivateKey(),
+    },
+    // REST base URL, used for the installation token exchange
+    apiUrl: apiUrls.apiUrl,
+    // Override to point at a local stub server
+    graphqlUrl: apiUrls.graphqlUrl,
+    // Trusted in addition to the default CAs for GitHub API requests
+    caBundle: loadCaBundle(),
+    retry: {
+      maxRetries: parseInt(process.env.GITHUB_MAX_RETRIES || '5', 10),
+      baseDelayMs: parseInt(process.env.GITHUB_RETRY_BASE_DELAY_MS || '1000', 10),
+      maxDelayMs: parseInt(process.env.GITHUB_RETRY_MAX_DELAY_MS || '60000', 10),
+      requestTimeoutMs: parseInt(process.env.GITHUB_REQUEST_TIMEOUT_MS || '30000', 10),
+      // Give up instead of sleeping longer than this for a rate limit reset
+      maxRateLimitWaitMs: parseInt(process.env.GITHUB_MAX_RATE_LIMIT_WAIT_MS || '900000', 10),
+    },
+    // 'record' saves every GraphQL request/response pair to fixture files,
+    // 'replay' serves them back instead of calling GitHub
+    fixtures: {
+      mode: (['record', 'replay'].includes(process.env.GITHUB_FIXTURE_MODE || '')
+        ? process.env.GITHUB_FIXTURE_MODE
+        : 'off') as 'off' | 'record' | 'replay',
+      dir: process.env.GITHUB_FIXTURE_DIR || 'fixtures/github',
+    },
+    // Shared secret for verifying X-Hub-Signature-256 on webhook deliveries
+    webhookSecret: process.env.GITHUB_WEBHOOK_SECRET || '',
+    rateLimit: {
+      // Slow requests down below this many remaining points...
+      throttleBelow: parseInt(process.env.GITHUB_RATE_LIMIT_THROTTLE_BELOW || '1000', 10),
+      // ...and pause until the window resets below this many
+      pauseBelow: parseInt(process.env.GITHUB_RATE_LIMIT_PAUSE_BELOW || '100', 10),
+    },
+  },
+  // Project field names bound to each concept; set one to an empty value to
+  // leave that concept unmapped
+  fields: {
+    status: process.env.FIELD_STATUS ?? 'Status',
+    priority: process.env.FIELD_PRIORITY ?? 'Priority',
+    dueDate: process.env.FIELD_DUE_DATE ?? 'First Tech Handoff ETA',
+    estimate: process.env.FIELD_ESTIMATE ?? '',
+    // Sprint field; when empty the project's first iteration field is used
+    iteration: process.env.FIELD_ITERATION ?? '',
+    // Explicit priority option aliases; "P0 - Critical" style values are normalised automatically
+    priorityValues: parseValueMap(process.env.FIELD_PRIORITY_VALUES),
+    // Normalised priorities reported separately in the statistics
+    criticalPriority: process.env.PRIORITY_CRITICAL || 'P0',
+    highPriority: process.env.PRIORITY_HIGH || 'P1',
   },
   polling: {
     cronSchedule: process.env.POLLING_CRON_SCHEDULE || '0 * * * *', // Every hour
+    // Scheduled polls only re-process changed items; a full sync runs on its own schedule
+    incremental: process.env.POLLING_INCREMENTAL !== 'false',
+    fullSyncCronSchedule: process.env.POLLING_FULL_SYNC_CRON_SCHEDULE || '0 3 * * *', // Daily at 03:00
+    // Re-check items changed this long before the previous fetch started
+    incrementalOverlapMs: parseInt(process.env.POLLING_INCREMENTAL_OVERLAP_MINUTES || '5', 10) * 60 * 1000,
+    // A sync that would mark more than this fraction of a board's tasks as
+    // removed skips the cleanup instead; 1 turns the check off
+    removalMaxFraction: parseFloat(process.env.POLLING_REMOVAL_MAX_FRACTION || '0.5'),
   },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
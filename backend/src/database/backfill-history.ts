@@ -1,11 +1,82 @@
-import { getPool, closePool, testConnection } from './connection';
-import { TaskRepository } from './task-repository';
+import { closePool, testConnection } from './connection';
+import { ProjectRepository } from './project-repository';
+import { GitHubFetcherService } from '../services/github-fetcher';
+import { HistoryBackfillService, BackfillResult, parseDay } from '../services/history-backfill';
+
+const DEFAULT_DAYS = 30;
+
+export interface BackfillOptions {
+  start?: string; // YYYY-MM-DD, defaults to DEFAULT_DAYS before the end
+  end?: string; // YYYY-MM-DD, defaults to today
+  project?: string; // "org/number", defaults to every known project
+}
 
 /**
- * Backfill historical data for the last 30 days
- * Creates synthetic historical snapshots based on current data
+ * Rebuild task snapshots and daily statistics for a date range from the
+ * issue and PR timelines (closed/reopened/merged, added to or removed from
+ * the project, status changes)
  */
-async function backfillHistory() {
+async function backfillHistory(
+  options: BackfillOptions = {}
+): Promise<Array<BackfillResult & { project: string }>> {
+  const end = options.end ? parseDay(options.end) : parseDay(new Date().toISOString().split('T')[0]);
+  const start = options.start
+    ? parseDay(options.start)
+    : new Date(end.getTime() - DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+
+  const projectRepo = new ProjectRepository();
+  const backfillService = new HistoryBackfillService();
+
+  let projects = await projectRepo.getProjects();
+  if (options.project) {
+    projects = projects.filter((p) => p.slug === options.project);
+    if (projects.length === 0) {
+      throw new Error(`Unknown project "${options.project}"`);
+    }
+  }
+  if (projects.length === 0) {
+    console.log('No projects found. Run a polling cycle first.');
+    return [];
+  }
+
+  const results: Array<BackfillResult & { project: string }> = [];
+
+  for (const project of projects) {
+    console.log(`\n---------- ${project.slug} ----------`);
+
+    const fetcher = new GitHubFetcherService(project.org, project.number);
+    await fetcher.initialize();
+
+    const result = await backfillService.backfillProject(project.id, fetcher, start, end);
+    results.push({ project: project.slug, ...result });
+  }
+
+  return results;
+}
+
+/**
+ * Read --start, --end and --project from the command line
+ */
+function parseArgs(argv: string[]): BackfillOptions {
+  const options: BackfillOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split('=', 2);
+    const value = inline ?? argv[++i];
+    if (flag === '--start') options.start = value;
+    else if (flag === '--end') options.end = value;
+    else if (flag === '--project') options.project = value;
+    else throw new Error(`Unknown argument "${argv[i]}"`);
+  }
+
+  return options;
+}
+
+/**
+ * Standalone runner, e.g.
+ * npm run db:backfill -- --start 2024-01-01 --end 2024-03-31 --project org/3
+ */
+async function runStandalone() {
   console.log('Starting historical data backfill...\n');
 
   // Test connection first
@@ -16,95 +87,15 @@ async function backfillHistory() {
   }
 
   try {
-    const taskRepo = new TaskRepository();
-    const pool = getPool();
-
-    // Get current statistics
-    const tasks = await taskRepo.getTasksWithAssignees();
-    console.log(`Found ${tasks.length} total tasks`);
-
-    const currentStats = {
-      total: tasks.length,
-      open: tasks.filter((t) => t.state === 'OPEN').length,
-      closed: tasks.filter((t) => t.state === 'CLOSED' || t.state === 'MERGED').length,
-      overdue: tasks.filter((t) => {
-        if (!t.dueDate || t.state !== 'OPEN') return false;
-        return new Date(t.dueDate) < new Date();
-      }).length,
-    };
-
-    console.log('Current statistics:', currentStats);
-    console.log('');
-
-    // Generate historical data for the past 30 days
-    const daysToBackfill = 30;
-    console.log(`Generating historical data for the past ${daysToBackfill} days...\n`);
-
-    for (let daysAgo = daysToBackfill; daysAgo >= 0; daysAgo--) {
-      const snapshotDate = new Date();
-      snapshotDate.setDate(snapshotDate.getDate() - daysAgo);
-      const dateStr = snapshotDate.toISOString().split('T')[0];
-
-      // Calculate synthetic stats based on task creation dates
-      // Filter tasks to only those that existed at that point in time
-      const tasksAtThatTime = tasks.filter((task) => {
-        const createdDate = new Date(task.createdAt);
-        return createdDate <= snapshotDate;
-      });
-
-      const totalAtTime = tasksAtThatTime.length;
-
-      // For each task, determine if it was closed at that snapshot date
-      const closedAtTime = tasksAtThatTime.filter((task) => {
-        const updatedDate = new Date(task.updatedAt);
-        // If task is currently closed and was updated before or at snapshot date
-        if ((task.state === 'CLOSED' || task.state === 'MERGED') && updatedDate <= snapshotDate) {
-          return true;
-        }
-        return false;
-      }).length;
-
-      const openAtTime = totalAtTime - closedAtTime;
-
-      // Calculate overdue at that time
-      const overdueAtTime = tasksAtThatTime.filter((task) => {
-        if (!task.dueDate) return false;
-        const dueDate = new Date(task.dueDate);
-        // Was it open and past due at that snapshot date?
-        const wasOpen = !(task.state === 'CLOSED' || task.state === 'MERGED') ||
-                        new Date(task.updatedAt) > snapshotDate;
-        return wasOpen && dueDate < snapshotDate;
-      }).length;
-
-      // Insert into daily_statistics
-      const sql = `
-        INSERT INTO daily_statistics (snapshot_date, total_tasks, open_tasks, closed_tasks, overdue_tasks, created_at)
-        VALUES ($1, $2, $3, $4, $5, NOW())
-        ON CONFLICT (snapshot_date)
-        DO UPDATE SET
-          total_tasks = EXCLUDED.total_tasks,
-          open_tasks = EXCLUDED.open_tasks,
-          closed_tasks = EXCLUDED.closed_tasks,
-          overdue_tasks = EXCLUDED.overdue_tasks,
-          created_at = NOW()
-      `;
-
-      await pool.query(sql, [
-        dateStr,
-        totalAtTime,
-        openAtTime,
-        closedAtTime,
-        overdueAtTime,
-      ]);
+    const results = await backfillHistory(parseArgs(process.argv.slice(2)));
 
+    console.log('\n========================================');
+    for (const result of results) {
       console.log(
-        `✓ ${dateStr}: Total=${totalAtTime}, Open=${openAtTime}, Closed=${closedAtTime}, Overdue=${overdueAtTime}`
+        `✓ ${result.project}: ${result.start} to ${result.end}, ${result.snapshots} snapshots of ${result.tasks} tasks`
       );
     }
-
-    console.log('\n========================================');
     console.log('✓ Historical data backfill completed!');
-    console.log(`✓ Generated ${daysToBackfill + 1} days of historical data`);
     console.log('========================================\n');
   } catch (error) {
     console.error('Backfill failed:', error);
@@ -116,7 +107,7 @@ async function backfillHistory() {
 
 // Run backfill if this file is executed directly
 if (require.main === module) {
-  backfillHistory().catch((error) => {
+  runStandalone().catch((error) => {
     console.error('Fatal error during backfill:', error);
     process.exit(1);
   });
@@ -0,0 +1,184 @@
+import { query, getClient } from './connection';
+import { TaskUpdate } from '../types/task';
+import {
+  BulkAction,
+  BulkJob,
+  BulkJobItem,
+  BulkJobItemStatus,
+  BulkJobStatus,
+} from '../types/bulk-job';
+
+// Job columns with item counts and the job that undid it
+const JOB_COLUMNS = `
+  j.id,
+  j.action,
+  j.value,
+  j.status,
+  j.undo_of,
+  (SELECT u.id FROM bulk_jobs u WHERE u.undo_of = j.id) as undone_by,
+  j.created_at,
+  j.finished_at,
+  (SELECT COUNT(*) FROM bulk_job_items i WHERE i.job_id = j.id) as total,
+  (SELECT COUNT(*) FROM bulk_job_items i WHERE i.job_id = j.id AND i.status = 'succeeded') as succeeded,
+  (SELECT COUNT(*) FROM bulk_job_items i WHERE i.job_id = j.id AND i.status = 'skipped') as skipped,
+  (SELECT COUNT(*) FROM bulk_job_items i WHERE i.job_id = j.id AND i.status = 'failed') as failed
+`;
+
+function rowToJob(row: any): BulkJob {
+  return {
+    id: row.id,
+    action: row.action,
+    value: row.value,
+    status: row.status,
+    undoOf: row.undo_of,
+    undoneBy: row.undone_by,
+    total: parseInt(row.total, 10),
+    succeeded: parseInt(row.succeeded, 10),
+    skipped: parseInt(row.skipped, 10),
+    failed: parseInt(row.failed, 10),
+    createdAt: row.created_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+function rowToItem(row: any): BulkJobItem {
+  return {
+    projectItemId: row.project_item_id,
+    githubId: row.github_id,
+    status: row.status,
+    update: row.update_values,
+    undo: row.undo_values,
+    error: row.error,
+    finishedAt: row.finished_at,
+  };
+}
+
+/**
+ * Repository for bulk triage jobs and their per-task results
+ */
+export class BulkJobRepository {
+  /**
+   * Create a job with one pending item per task. `updates` is given for
+   * undo jobs, whose changes are known up front.
+   */
+  async createJob(
+    action: BulkAction | 'undo',
+    value: string | null,
+    projectItemIds: string[],
+    undoOf: number | null = null,
+    updates: Array<TaskUpdate | null> = []
+  ): Promise<number> {
+    const client = await getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        'INSERT INTO bulk_jobs (action, value, undo_of) VALUES ($1, $2, $3) RETURNING id',
+        [action, value, undoOf]
+      );
+      const jobId = result.rows[0].id;
+
+      await client.query(
+        `INSERT INTO bulk_job_items (job_id, project_item_id, position, update_values)
+         SELECT $1, item_id, position, update_values
+         FROM unnest($2::text[], $3::jsonb[]) WITH ORDINALITY AS i(item_id, update_values, position)`,
+        [jobId, projectItemIds, projectItemIds.map((_, i) => updates[i] ?? null)]
+      );
+
+      await client.query('COMMIT');
+      return jobId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record the outcome of one item
+   */
+  async finishItem(
+    jobId: number,
+    projectItemId: string,
+    status: BulkJobItemStatus,
+    details: { githubId?: string | null; update?: TaskUpdate | null; undo?: TaskUpdate | null; error?: string | null }
+  ): Promise<void> {
+    await query(
+      `UPDATE bulk_job_items
+       SET status = $3,
+           github_id = COALESCE($4, github_id),
+           update_values = COALESCE($5, update_values),
+           undo_values = $6,
+           error = $7,
+           finished_at = NOW()
+       WHERE job_id = $1 AND project_item_id = $2`,
+      [
+        jobId,
+        projectItemId,
+        status,
+        details.githubId ?? null,
+        details.update ? JSON.stringify(details.update) : null,
+        details.undo ? JSON.stringify(details.undo) : null,
+        details.error ?? null,
+      ]
+    );
+  }
+
+  /**
+   * Mark a job finished, with its status worked out from its items
+   */
+  async finishJob(jobId: number): Promise<BulkJobStatus> {
+    const result = await query(
+      `UPDATE bulk_jobs j
+       SET finished_at = NOW(),
+           status = CASE
+             WHEN NOT EXISTS (SELECT 1 FROM bulk_job_items i WHERE i.job_id = j.id AND i.status = 'failed')
+               THEN 'completed'
+             WHEN EXISTS (SELECT 1 FROM bulk_job_items i WHERE i.job_id = j.id AND i.status <> 'failed')
+               THEN 'partial'
+             ELSE 'failed'
+           END
+       WHERE id = $1
+       RETURNING status`,
+      [jobId]
+    );
+    return result.rows[0].status;
+  }
+
+  /**
+   * Jobs left running by a previous process can not finish; mark them
+   * interrupted so what they did can still be undone
+   */
+  async interruptRunningJobs(): Promise<number> {
+    const result = await query(
+      "UPDATE bulk_jobs SET status = 'interrupted', finished_at = NOW() WHERE status = 'running'"
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async getJob(jobId: number): Promise<BulkJob | null> {
+    const result = await query(`SELECT ${JOB_COLUMNS} FROM bulk_jobs j WHERE j.id = $1`, [jobId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const items = await query(
+      'SELECT * FROM bulk_job_items WHERE job_id = $1 ORDER BY position',
+      [jobId]
+    );
+    return { ...rowToJob(result.rows[0]), items: items.rows.map(rowToItem) };
+  }
+
+  /**
+   * Most recent jobs first, without their items
+   */
+  async getRecentJobs(limit: number = 20): Promise<BulkJob[]> {
+    const result = await query(
+      `SELECT ${JOB_COLUMNS} FROM bulk_jobs j ORDER BY j.created_at DESC, j.id DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(rowToJob);
+  }
+}
@@ -1,8 +1,12 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
 import { config } from '../config';
 
 let pool: Pool | null = null;
 
+// Client of the transaction the current async call chain runs in, if any
+const transactionClient = new AsyncLocalStorage<PoolClient>();
+
 /**
  * Get or create database connection pool
  */
@@ -26,12 +30,16 @@ export function getPool(): Pool {
 }
 
 /**
- * Execute a query
+ * Execute a query, inside the current transaction if there is one
  */
 export async function query<T extends QueryResultRow = any>(
   text: string,
   params?: any[]
 ): Promise<QueryResult<T>> {
+  const client = transactionClient.getStore();
+  if (client) {
+    return client.query<T>(text, params);
+  }
   const pool = getPool();
   return pool.query<T>(text, params);
 }
@@ -44,6 +52,31 @@ export async function getClient(): Promise<PoolClient> {
   return pool.connect();
 }
 
+/**
+ * Run `fn` in a transaction, committing when it resolves and rolling back
+ * when it throws. Queries made with `query` during `fn`, and transactions
+ * started inside it, join this transaction.
+ */
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const current = transactionClient.getStore();
+  if (current) {
+    return fn(current);
+  }
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const result = await transactionClient.run(client, () => fn(client));
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Close the database pool
  */
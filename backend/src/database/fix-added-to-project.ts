@@ -0,0 +1,66 @@
+import { closePool, testConnection } from './connection';
+import { TaskRepository } from './task-repository';
+import { ProjectRepository } from './project-repository';
+import { fetchAllProjectItemSummaries } from '../utils/github-graphql';
+
+/**
+ * One-off correction for tasks synced while added_to_project_at was
+ * approximated with the issue's creation time. Lists every item of each
+ * known project and stores the item's own creation time instead.
+ */
+async function fixAddedToProject() {
+  console.log('Correcting added-to-project times...\n');
+
+  // Test connection first
+  const connected = await testConnection();
+  if (!connected) {
+    console.error('Failed to connect to database. Exiting.');
+    process.exit(1);
+  }
+
+  try {
+    const taskRepo = new TaskRepository();
+    const projectRepo = new ProjectRepository();
+
+    const projects = await projectRepo.getProjects();
+    if (projects.length === 0) {
+      console.log('No projects found. Run a polling cycle first.');
+      return;
+    }
+
+    for (const project of projects) {
+      if (!project.nodeId) {
+        console.log(`⚠ ${project.slug} has no node ID yet, skipping`);
+        continue;
+      }
+
+      console.log(`---------- ${project.slug} ----------`);
+      const summaries = await fetchAllProjectItemSummaries(project.nodeId);
+      const corrected = await taskRepo.correctAddedToProjectAt(
+        project.id,
+        summaries.map((summary) => ({
+          projectItemId: summary.id,
+          addedAt: new Date(summary.createdAt),
+        }))
+      );
+      console.log(`✓ Corrected ${corrected} tasks\n`);
+    }
+
+    console.log('✓ Correction completed');
+  } catch (error) {
+    console.error('Correction failed:', error);
+    process.exit(1);
+  } finally {
+    await closePool();
+  }
+}
+
+// Run correction if this file is executed directly
+if (require.main === module) {
+  fixAddedToProject().catch((error) => {
+    console.error('Fatal error during correction:', error);
+    process.exit(1);
+  });
+}
+
+export { fixAddedToProject };
@@ -0,0 +1,185 @@
+import { query, withTransaction } from './connection';
+import { Iteration, SprintReport } from '../types/task';
+import { IterationFetchResult } from '../services/github-fetcher';
+
+function rowToIteration(row: any): Iteration {
+  return {
+    iterationId: row.iteration_id,
+    project: row.project,
+    fieldName: row.field_name,
+    title: row.title,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    duration: row.duration,
+    completed: row.completed,
+  };
+}
+
+/**
+ * Repository for sprint definitions and per-sprint reporting
+ */
+export class IterationRepository {
+  /**
+   * Store the project's sprint definitions, replacing ones that no longer
+   * exist, in a transaction (or the caller's)
+   */
+  async saveIterations(projectId: number, result: IterationFetchResult): Promise<void> {
+    try {
+      await withTransaction(async (client) => {
+        for (const iteration of result.iterations) {
+          await client.query(
+            `
+            INSERT INTO iterations (project_id, iteration_id, field_name, title, start_date, duration, completed)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            ON CONFLICT (project_id, iteration_id)
+            DO UPDATE SET
+              field_name = EXCLUDED.field_name,
+              title = EXCLUDED.title,
+              start_date = EXCLUDED.start_date,
+              duration = EXCLUDED.duration,
+              completed = EXCLUDED.completed,
+              updated_at = NOW()
+            `,
+            [
+              projectId,
+              iteration.id,
+              result.fieldName,
+              iteration.title,
+              iteration.startDate,
+              iteration.duration,
+              iteration.completed,
+            ]
+          );
+        }
+
+        await client.query(
+          'DELETE FROM iterations WHERE project_id = $1 AND NOT (iteration_id = ANY($2::text[]))',
+          [projectId, result.iterations.map((i) => i.id)]
+        );
+      });
+    } catch (error) {
+      console.error('Error saving iterations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record sprint changes for a project's tasks: close the history row of a
+   * task that left its sprint and open one for its new sprint. Tasks removed
+   * from the board keep their history as it was.
+   */
+  async syncTaskIterations(projectId: number): Promise<void> {
+    await query(
+      `
+      UPDATE task_iterations ti SET removed_at = NOW()
+      FROM tasks t
+      WHERE ti.task_id = t.id AND t.project_id = $1 AND ti.removed_at IS NULL
+        AND t.removed_from_project_at IS NULL
+        AND ti.iteration_id IS DISTINCT FROM t.iteration_id
+      `,
+      [projectId]
+    );
+
+    await query(
+      `
+      INSERT INTO task_iterations (task_id, iteration_id)
+      SELECT t.id, t.iteration_id
+      FROM tasks t
+      WHERE t.project_id = $1 AND t.iteration_id IS NOT NULL AND t.removed_from_project_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM task_iterations ti WHERE ti.task_id = t.id AND ti.removed_at IS NULL
+        )
+      `,
+      [projectId]
+    );
+  }
+
+  /**
+   * Get sprint definitions, optionally limited to one project
+   */
+  async getIterations(projectId: number | null = null): Promise<Iteration[]> {
+    const result = await query(
+      `
+      SELECT
+        i.iteration_id,
+        p.org || '/' || p.number as project,
+        i.field_name,
+        i.title,
+        to_char(i.start_date, 'YYYY-MM-DD') as start_date,
+        to_char(i.start_date + i.duration, 'YYYY-MM-DD') as end_date,
+        i.duration,
+        i.completed
+      FROM iterations i
+      JOIN projects p ON p.id = i.project_id
+      WHERE ($1::int IS NULL OR i.project_id = $1)
+      ORDER BY i.start_date, p.org, p.number
+      `,
+      [projectId]
+    );
+
+    return result.rows.map(rowToIteration);
+  }
+
+  /**
+   * Committed vs. completed counts for the most recent sprints that have
+   * started, oldest first. A task counts as committed to every sprint it
+   * was in, and as spilled over when it left a sprint for a later one.
+   * Tasks removed from the board are left out.
+   */
+  async getSprintReport(projectId: number | null = null, limit: number = 10): Promise<SprintReport[]> {
+    const sql = `
+      SELECT * FROM (
+        SELECT
+          i.iteration_id,
+          p.org || '/' || p.number as project,
+          i.title,
+          to_char(i.start_date, 'YYYY-MM-DD') as start_date,
+          to_char(i.start_date + i.duration, 'YYYY-MM-DD') as end_date,
+          CURRENT_DATE >= i.start_date AND CURRENT_DATE < i.start_date + i.duration as is_current,
+          COUNT(DISTINCT ti.task_id) as committed,
+          COUNT(DISTINCT ti.task_id) FILTER (
+            WHERE ti.removed_at IS NULL AND t.state IN ('CLOSED', 'MERGED')
+          ) as completed,
+          COUNT(DISTINCT ti.task_id) FILTER (
+            WHERE ti.removed_at IS NULL AND t.state = 'OPEN'
+          ) as remaining,
+          COUNT(DISTINCT ti.task_id) FILTER (
+            WHERE ti.removed_at IS NOT NULL AND next_i.start_date > i.start_date
+          ) as spilled_over
+        FROM iterations i
+        JOIN projects p ON p.id = i.project_id
+        LEFT JOIN (
+          task_iterations ti JOIN tasks t ON t.id = ti.task_id AND t.removed_from_project_at IS NULL
+        ) ON ti.iteration_id = i.iteration_id AND t.project_id = i.project_id
+        LEFT JOIN iterations next_i
+          ON next_i.project_id = i.project_id AND next_i.iteration_id = t.iteration_id
+        WHERE ($1::int IS NULL OR i.project_id = $1)
+          AND i.start_date <= CURRENT_DATE
+        GROUP BY i.id, p.id
+        ORDER BY i.start_date DESC, i.id
+        LIMIT $2
+      ) recent
+      ORDER BY start_date ASC
+    `;
+
+    const result = await query(sql, [projectId, limit]);
+
+    return result.rows.map((row) => {
+      const committed = parseInt(row.committed, 10);
+      const completed = parseInt(row.completed, 10);
+      return {
+        iterationId: row.iteration_id,
+        project: row.project,
+        title: row.title,
+        startDate: row.start_date,
+        endDate: row.end_date,
+        isCurrent: row.is_current,
+        committed,
+        completed,
+        remaining: parseInt(row.remaining, 10),
+        spilledOver: parseInt(row.spilled_over, 10),
+        completionRate: committed > 0 ? completed / committed : 0,
+      };
+    });
+  }
+}
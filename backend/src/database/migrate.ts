@@ -1,34 +1,348 @@
-import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
 import { join } from 'path';
-import { getPool, closePool, testConnection } from './connection';
-import logger from '../utils/logger';
+import { PoolClient } from 'pg';
+import { getClient, closePool, testConnection } from './connection';
+
+const MIGRATIONS_DIR = join(__dirname, 'migrations');
+
+// e.g. 0002_add_task_events.up.sql and 0002_add_task_events.down.sql
+const MIGRATION_FILE = /^(\d{4})_(\w+)\.(up|down)\.sql$/;
+
+// Advisory lock held while migrating, so concurrent migration jobs run one
+// after the other instead of side by side
+const MIGRATION_LOCK = 'ghmonitoring:schema_migrations';
+
+// Firebase Data Connect schema that mirrors the tables; `status` reports
+// where it has drifted from the database. Not present in the Docker image.
+const DATA_CONNECT_SCHEMA = join(__dirname, '../../../dataconnect/schema.gql');
+
+interface Migration {
+  version: number;
+  name: string; // e.g. "0001_initial_schema"
+  up: string;
+  down: string | null;
+  checksum: string; // SHA-256 of the up script
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  // changed: the up script was edited after it was applied;
+  // missing: applied, but its files are gone
+  state: 'applied' | 'pending' | 'changed' | 'missing';
+  appliedAt: Date | null;
+}
+
+function checksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Read the migration files, ordered by version
+ */
+function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const byVersion = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of readdirSync(dir).sort()) {
+    const match = file.match(MIGRATION_FILE);
+    if (!match) {
+      if (file.endsWith('.sql')) {
+        throw new Error(`Unexpected migration file name "${file}", expected NNNN_name.up.sql or NNNN_name.down.sql`);
+      }
+      continue;
+    }
+
+    const version = parseInt(match[1], 10);
+    const name = `${match[1]}_${match[2]}`;
+    const entry = byVersion.get(version) ?? { name };
+    if (entry.name !== name) {
+      throw new Error(`Migration version ${match[1]} is used by both ${entry.name} and ${name}`);
+    }
+    entry[match[3] as 'up' | 'down'] = readFileSync(join(dir, file), 'utf-8');
+    byVersion.set(version, entry);
+  }
+
+  return [...byVersion.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, entry]) => {
+      if (entry.up === undefined) {
+        throw new Error(`Migration ${entry.name} has no up script`);
+      }
+      return { version, name: entry.name, up: entry.up, down: entry.down ?? null, checksum: checksum(entry.up) };
+    });
+}
+
+async function getAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+  const table = await client.query("SELECT to_regclass('schema_migrations') AS name");
+  if (!table.rows[0].name) {
+    return [];
+  }
+
+  const result = await client.query(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return result.rows.map((row) => ({
+    version: row.version,
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: row.applied_at,
+  }));
+}
+
+/**
+ * Refuse to run when an applied migration was edited or deleted; the
+ * database would no longer match the files
+ */
+function verifyApplied(migrations: Migration[], applied: AppliedMigration[]): void {
+  for (const row of applied) {
+    const migration = migrations.find((m) => m.version === row.version);
+    if (!migration) {
+      throw new Error(`Migration ${row.name} is applied but its files are missing`);
+    }
+    if (migration.checksum !== row.checksum) {
+      throw new Error(
+        `${migration.name}.up.sql was changed after it was applied; add a new migration instead`
+      );
+    }
+  }
+}
 
 /**
- * Run database migrations
- * This creates all necessary tables and indexes
+ * Run `fn` holding the migration lock, with the schema_migrations table in
+ * place. Waits while another process holds the lock.
  */
-async function migrate() {
+async function withMigrationLock<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await getClient();
+
   try {
-    // Read schema file
-    const schemaPath = join(__dirname, 'schema.sql');
-    const schema = readFileSync(schemaPath, 'utf-8');
+    const result = await client.query('SELECT pg_try_advisory_lock(hashtext($1)) AS locked', [MIGRATION_LOCK]);
+    if (!result.rows[0].locked) {
+      console.log('Another migration is running, waiting for it to finish...');
+      await client.query('SELECT pg_advisory_lock(hashtext($1))', [MIGRATION_LOCK]);
+    }
 
-    // Execute schema (using IF NOT EXISTS, so safe to run multiple times)
-    const pool = getPool();
-    await pool.query(schema);
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          checksum VARCHAR(64) NOT NULL,
+          applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock(hashtext($1))', [MIGRATION_LOCK]);
+    }
+  } finally {
+    client.release();
+  }
+}
 
-    logger.info('Database schema created/updated successfully');
+/**
+ * Run `sql` and record the change in one transaction
+ */
+async function runInTransaction(client: PoolClient, label: string, sql: string, record: () => Promise<unknown>) {
+  try {
+    await client.query('BEGIN');
+    await client.query(sql);
+    await record();
+    await client.query('COMMIT');
   } catch (error) {
-    logger.error('Migration failed:', error);
-    throw error;
+    await client.query('ROLLBACK');
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${label} failed: ${reason}`);
+  }
+}
+
+/**
+ * Apply pending migrations in order, up to and including `target` when
+ * given. Returns the names of the migrations applied.
+ */
+async function migrateUp(target?: number): Promise<string[]> {
+  const migrations = loadMigrations();
+
+  return withMigrationLock(async (client) => {
+    const applied = await getAppliedMigrations(client);
+    verifyApplied(migrations, applied);
+
+    const appliedVersions = new Set(applied.map((m) => m.version));
+    const pending = migrations.filter(
+      (m) => !appliedVersions.has(m.version) && (target === undefined || m.version <= target)
+    );
+
+    for (const migration of pending) {
+      await runInTransaction(client, `Migration ${migration.name}`, migration.up, () =>
+        client.query('INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', [
+          migration.version,
+          migration.name,
+          migration.checksum,
+        ])
+      );
+      console.log(`✓ Applied ${migration.name}`);
+    }
+
+    return pending.map((m) => m.name);
+  });
+}
+
+/**
+ * Roll back the most recent `steps` migrations with their down scripts.
+ * Returns the names of the migrations rolled back.
+ */
+async function migrateDown(steps: number = 1): Promise<string[]> {
+  const migrations = loadMigrations();
+
+  return withMigrationLock(async (client) => {
+    const applied = await getAppliedMigrations(client);
+    verifyApplied(migrations, applied);
+
+    const rollback = applied.reverse().slice(0, steps);
+    for (const row of rollback) {
+      const migration = migrations.find((m) => m.version === row.version)!;
+      if (migration.down === null) {
+        throw new Error(`Migration ${migration.name} has no down script`);
+      }
+
+      await runInTransaction(client, `Rollback of ${migration.name}`, migration.down, () =>
+        client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version])
+      );
+      console.log(`✓ Rolled back ${migration.name}`);
+    }
+
+    return rollback.map((m) => m.name);
+  });
+}
+
+/**
+ * Every migration on disk or in the database, with its state
+ */
+async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations();
+  const client = await getClient();
+
+  try {
+    const applied = await getAppliedMigrations(client);
+    const statuses: MigrationStatus[] = migrations.map((migration) => {
+      const row = applied.find((m) => m.version === migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'changed',
+        appliedAt: row?.appliedAt ?? null,
+      };
+    });
+
+    for (const row of applied) {
+      if (!migrations.some((m) => m.version === row.version)) {
+        statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.appliedAt });
+      }
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Tables and columns named in the Data Connect schema that the database
+ * does not have. Columns are the @col name, or the field name in snake_case.
+ */
+async function checkDataConnectSchema(): Promise<string[]> {
+  if (!existsSync(DATA_CONNECT_SCHEMA)) {
+    return [];
+  }
+
+  const schema = readFileSync(DATA_CONNECT_SCHEMA, 'utf-8');
+  const expected = new Map<string, string[]>();
+  for (const table of schema.matchAll(/type\s+\w+\s+@table\(\s*name:\s*"(\w+)"[^{]*\{([\s\S]*?)\n\}/g)) {
+    const columns: string[] = [];
+    for (const field of table[2].matchAll(/^\s*(\w+):\s*[\w!]+(.*)$/gm)) {
+      if (field[2].includes('@sql(')) continue; // Relationship, not a column
+      const col = field[2].match(/@col\(name:\s*"(\w+)"\)/);
+      columns.push(col ? col[1] : field[1].replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`));
+    }
+    expected.set(table[1], columns);
+  }
+
+  const client = await getClient();
+  try {
+    const result = await client.query(
+      `SELECT table_name, column_name FROM information_schema.columns
+       WHERE table_schema = current_schema() AND table_name = ANY($1)`,
+      [[...expected.keys()]]
+    );
+
+    const drift: string[] = [];
+    for (const [table, columns] of expected) {
+      const actual = new Set(result.rows.filter((r) => r.table_name === table).map((r) => r.column_name));
+      if (actual.size === 0) {
+        drift.push(`table ${table} does not exist`);
+        continue;
+      }
+      for (const column of columns.filter((c) => !actual.has(c))) {
+        drift.push(`column ${table}.${column} does not exist`);
+      }
+    }
+    return drift;
+  } finally {
+    client.release();
   }
 }
 
 /**
- * Standalone migration runner for manual execution
+ * Apply every pending migration
+ */
+async function migrate(): Promise<string[]> {
+  return migrateUp();
+}
+
+async function printStatus(): Promise<void> {
+  const statuses = await getMigrationStatus();
+  for (const status of statuses) {
+    const appliedAt = status.appliedAt ? ` (${status.appliedAt.toISOString()})` : '';
+    console.log(`  ${status.state.padEnd(8)} ${status.name}${appliedAt}`);
+  }
+
+  const problems = statuses.filter((s) => s.state === 'changed' || s.state === 'missing');
+  if (problems.length > 0) {
+    console.warn(`⚠ ${problems.length} applied migration(s) no longer match their files`);
+  }
+
+  const drift = await checkDataConnectSchema();
+  if (drift.length > 0) {
+    console.warn(`⚠ dataconnect/schema.gql has drifted from the database:`);
+    drift.forEach((line) => console.warn(`    ${line}`));
+  }
+}
+
+/**
+ * Standalone migration runner, e.g.
+ * npm run db:migrate               apply all pending migrations
+ * npm run db:migrate -- up 3       apply pending migrations up to 0003
+ * npm run db:migrate -- down [n]   roll back the last n migrations (default 1)
+ * npm run db:migrate -- status     list migrations and their state
  */
 async function runStandalone() {
-  console.log('Starting database migration...');
+  const [command = 'up', arg] = process.argv.slice(2);
+  if (!['up', 'down', 'status'].includes(command)) {
+    console.error(`Unknown command "${command}", expected up, down or status`);
+    process.exit(1);
+  }
+  const number = arg === undefined ? undefined : parseInt(arg, 10);
+  if (number !== undefined && (Number.isNaN(number) || number < 1)) {
+    console.error(`Invalid argument "${arg}", expected a positive number`);
+    process.exit(1);
+  }
 
   // Test connection first
   const connected = await testConnection();
@@ -38,11 +352,18 @@ async function runStandalone() {
   }
 
   try {
-    await migrate();
-    console.log('✓ Migration completed');
+    if (command === 'status') {
+      await printStatus();
+    } else if (command === 'down') {
+      const rolledBack = await migrateDown(number);
+      console.log(rolledBack.length > 0 ? `✓ Rolled back ${rolledBack.length} migration(s)` : 'Nothing to roll back');
+    } else {
+      const applied = await migrateUp(number);
+      console.log(applied.length > 0 ? `✓ Applied ${applied.length} migration(s)` : '✓ Database is up to date');
+    }
   } catch (error) {
-    console.error('Migration failed:', error);
-    process.exit(1);
+    console.error('✗ Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
   } finally {
     await closePool();
   }
@@ -56,4 +377,4 @@ if (require.main === module) {
   });
 }
 
-export { migrate };
+export { migrate, migrateUp, migrateDown, getMigrationStatus };
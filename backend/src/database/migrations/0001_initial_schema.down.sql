@@ -0,0 +1,15 @@
+-- Drop everything created by 0001, dependents first
+DROP TABLE IF EXISTS bulk_job_items;
+DROP TABLE IF EXISTS bulk_jobs;
+DROP TABLE IF EXISTS webhook_dead_letters;
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS sync_runs;
+DROP TABLE IF EXISTS daily_statistics;
+DROP TABLE IF EXISTS task_snapshots;
+DROP TABLE IF EXISTS task_iterations;
+DROP TABLE IF EXISTS iterations;
+DROP TABLE IF EXISTS task_linked_pull_requests;
+DROP TABLE IF EXISTS task_field_values;
+DROP TABLE IF EXISTS task_assignments;
+DROP TABLE IF EXISTS tasks;
+DROP TABLE IF EXISTS projects;
@@ -0,0 +1,259 @@
+-- GitHub Monitoring Database Schema, as of the switch to versioned migrations.
+-- Kept idempotent so databases created before then adopt it as applied.
+
+-- Projects table: the GitHub projects being monitored
+CREATE TABLE IF NOT EXISTS projects (
+  id SERIAL PRIMARY KEY,
+  org VARCHAR(255) NOT NULL,
+  number INTEGER NOT NULL,
+  node_id VARCHAR(255), -- GitHub ProjectV2 node ID
+  title TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT unique_project UNIQUE (org, number)
+);
+
+-- Tasks table: stores all GitHub issues and PRs from the monitored projects.
+-- The same issue can appear once per project it is on.
+CREATE TABLE IF NOT EXISTS tasks (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+  github_id VARCHAR(255) NOT NULL, -- e.g., "risa-labs-inc/repo#123"
+  project_item_id VARCHAR(255) UNIQUE NOT NULL, -- GitHub ProjectV2Item ID
+  title TEXT NOT NULL,
+  number INTEGER NOT NULL,
+  type VARCHAR(50) NOT NULL CHECK (type IN ('ISSUE', 'PULL_REQUEST', 'DRAFT_ISSUE')),
+  state VARCHAR(50) NOT NULL CHECK (state IN ('OPEN', 'CLOSED', 'MERGED')),
+  status VARCHAR(100), -- Project status column (e.g., "In Progress", "Done")
+  priority VARCHAR(50), -- Priority field (e.g., "P0", "P1", "P2")
+  repository VARCHAR(255),
+  created_at TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP NOT NULL,
+  due_date TIMESTAMP,
+  estimate NUMERIC, -- Mapped estimate field (e.g., story points)
+  iteration_id VARCHAR(255), -- GitHub iteration (sprint) the task is in
+  labels TEXT[] NOT NULL DEFAULT '{}',
+  milestone VARCHAR(255), -- Milestone title
+  author VARCHAR(100), -- GitHub username (draft creator for drafts)
+  issue_type VARCHAR(100), -- Organization issue type (e.g., "Bug")
+  closed_at TIMESTAMP,
+  merged_at TIMESTAMP,
+  added_to_project_at TIMESTAMP,
+  parent_github_id VARCHAR(255), -- Parent issue of a sub-issue, as github_id
+  sub_issues_total INTEGER NOT NULL DEFAULT 0,
+  sub_issues_completed INTEGER NOT NULL DEFAULT 0,
+  -- Pull request review and CI state (NULL for issues and drafts)
+  is_draft BOOLEAN,
+  review_decision VARCHAR(50), -- APPROVED, CHANGES_REQUESTED or REVIEW_REQUIRED
+  requested_reviewers TEXT[],
+  review_count INTEGER,
+  first_review_at TIMESTAMP,
+  mergeable VARCHAR(50), -- MERGEABLE, CONFLICTING or UNKNOWN
+  checks_state VARCHAR(50), -- Head commit status-check rollup (e.g., SUCCESS, FAILURE)
+  development_state VARCHAR(20), -- NO_PR, PR_OPEN, IN_REVIEW or MERGED (open issues and drafts only)
+  last_synced_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Task assignments table: tracks who picked up which tasks
+CREATE TABLE IF NOT EXISTS task_assignments (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  assignee VARCHAR(100) NOT NULL,
+  assigned_at TIMESTAMP DEFAULT NOW(),
+  unassigned_at TIMESTAMP,
+  CONSTRAINT fk_task FOREIGN KEY (task_id) REFERENCES tasks(id)
+);
+
+-- Task field values table: every project field value on a task, by field name
+CREATE TABLE IF NOT EXISTS task_field_values (
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  field_name VARCHAR(255) NOT NULL,
+  value TEXT NOT NULL, -- Text, date, number, option name or iteration title
+  updated_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (task_id, field_name)
+);
+
+-- Linked pull requests table: pull requests that close an issue task when
+-- merged. The pull requests do not need to be on the board.
+CREATE TABLE IF NOT EXISTS task_linked_pull_requests (
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  pull_request_github_id VARCHAR(255) NOT NULL, -- e.g., "risa-labs-inc/repo#456"
+  state VARCHAR(50) NOT NULL CHECK (state IN ('OPEN', 'CLOSED', 'MERGED')),
+  is_draft BOOLEAN NOT NULL DEFAULT FALSE,
+  url TEXT NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (task_id, pull_request_github_id)
+);
+
+-- Iterations table: sprint definitions of each project's iteration field
+CREATE TABLE IF NOT EXISTS iterations (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  iteration_id VARCHAR(255) NOT NULL, -- GitHub iteration ID
+  field_name VARCHAR(255) NOT NULL,
+  title TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  duration INTEGER NOT NULL, -- Days
+  completed BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT unique_project_iteration UNIQUE (project_id, iteration_id)
+);
+
+-- Task iterations table: tracks which sprints a task has been in
+CREATE TABLE IF NOT EXISTS task_iterations (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  iteration_id VARCHAR(255) NOT NULL,
+  assigned_at TIMESTAMP DEFAULT NOW(),
+  removed_at TIMESTAMP
+);
+
+-- Task snapshots table: historical tracking of task states
+CREATE TABLE IF NOT EXISTS task_snapshots (
+  id SERIAL PRIMARY KEY,
+  snapshot_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  state VARCHAR(50) NOT NULL,
+  status VARCHAR(100),
+  is_overdue BOOLEAN DEFAULT FALSE,
+  CONSTRAINT fk_task_snapshot FOREIGN KEY (task_id) REFERENCES tasks(id)
+);
+
+-- Daily statistics table: aggregated daily metrics
+CREATE TABLE IF NOT EXISTS daily_statistics (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  total_tasks INTEGER NOT NULL,
+  open_tasks INTEGER NOT NULL,
+  closed_tasks INTEGER NOT NULL,
+  overdue_tasks INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Sync runs table: one row per polling cycle
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP,
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'error')),
+  error TEXT,
+  tasks_fetched INTEGER,
+  rate_limit_points_used INTEGER, -- GraphQL points spent during the run
+  rate_limit_remaining INTEGER, -- Points left in the window when the run finished
+  mode VARCHAR(20) NOT NULL DEFAULT 'full' CHECK (mode IN ('full', 'incremental')),
+  high_water_mark TIMESTAMP, -- Next incremental run picks up items changed at or after this
+  truncated_items INTEGER -- Items whose nested field values/assignees needed follow-up queries
+);
+
+-- Webhook deliveries, so each delivery ID is processed only once
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  delivery_id VARCHAR(100) PRIMARY KEY, -- X-GitHub-Delivery header
+  event VARCHAR(50) NOT NULL,
+  action VARCHAR(50),
+  status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+  received_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMP
+);
+
+-- Deliveries that failed to process, kept for replay
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+  id SERIAL PRIMARY KEY,
+  delivery_id VARCHAR(100) NOT NULL,
+  event VARCHAR(50) NOT NULL,
+  action VARCHAR(50),
+  payload JSONB NOT NULL,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  failed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  replayed_at TIMESTAMP -- Set once a replay succeeds
+);
+
+-- Bulk jobs: one triage action applied to many tasks on GitHub
+CREATE TABLE IF NOT EXISTS bulk_jobs (
+  id SERIAL PRIMARY KEY,
+  action VARCHAR(50) NOT NULL, -- setPriority, setStatus, setDueDate, assign, unassign, addLabel or undo
+  value TEXT, -- Priority, status, date, username or label the action applies
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'partial', 'failed', 'interrupted')),
+  undo_of INTEGER REFERENCES bulk_jobs(id) ON DELETE SET NULL, -- Job an undo job reverts
+  created_at TIMESTAMP DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+
+-- Per-task results of a bulk job, with the values needed to undo it
+CREATE TABLE IF NOT EXISTS bulk_job_items (
+  job_id INTEGER NOT NULL REFERENCES bulk_jobs(id) ON DELETE CASCADE,
+  project_item_id VARCHAR(255) NOT NULL,
+  position INTEGER NOT NULL, -- Order the tasks were selected in
+  github_id VARCHAR(255),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'succeeded', 'skipped', 'failed')),
+  update_values JSONB, -- Change applied to the task
+  undo_values JSONB, -- Change that restores the previous values
+  error TEXT,
+  finished_at TIMESTAMP,
+  PRIMARY KEY (job_id, project_item_id)
+);
+
+-- Columns added after the initial release (safe to run multiple times)
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS mode VARCHAR(20) NOT NULL DEFAULT 'full';
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS high_water_mark TIMESTAMP;
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE;
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS truncated_items INTEGER;
+
+-- Multi-project support: tasks and daily statistics are keyed per project.
+-- Existing tasks are assigned to their project by the next sync.
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE;
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS unique_github_id;
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_github_id_key;
+ALTER TABLE daily_statistics ADD COLUMN IF NOT EXISTS project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE;
+ALTER TABLE daily_statistics DROP CONSTRAINT IF EXISTS daily_statistics_snapshot_date_key;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS estimate NUMERIC;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS iteration_id VARCHAR(255);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS labels TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS milestone VARCHAR(255);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS author VARCHAR(100);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS issue_type VARCHAR(100);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS parent_github_id VARCHAR(255);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS sub_issues_total INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS sub_issues_completed INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS is_draft BOOLEAN;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS review_decision VARCHAR(50);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS requested_reviewers TEXT[];
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS review_count INTEGER;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS first_review_at TIMESTAMP;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS mergeable VARCHAR(50);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS checks_state VARCHAR(50);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS development_state VARCHAR(20);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_tasks_state ON tasks(state);
+CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date);
+CREATE INDEX IF NOT EXISTS idx_tasks_repository ON tasks(repository);
+CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
+CREATE INDEX IF NOT EXISTS idx_task_assignments_task_id ON task_assignments(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_assignments_assignee ON task_assignments(assignee);
+CREATE INDEX IF NOT EXISTS idx_task_snapshots_task_id ON task_snapshots(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_snapshots_date ON task_snapshots(snapshot_date);
+CREATE INDEX IF NOT EXISTS idx_daily_statistics_date ON daily_statistics(snapshot_date);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON sync_runs(started_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_project_github_id ON tasks(project_id, github_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_statistics_project_date ON daily_statistics(project_id, snapshot_date);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_project_id ON sync_runs(project_id);
+CREATE INDEX IF NOT EXISTS idx_task_field_values_name_value ON task_field_values(field_name, value);
+CREATE INDEX IF NOT EXISTS idx_tasks_iteration_id ON tasks(iteration_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_labels ON tasks USING GIN (labels);
+CREATE INDEX IF NOT EXISTS idx_tasks_milestone ON tasks(milestone);
+CREATE INDEX IF NOT EXISTS idx_tasks_author ON tasks(author);
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_github_id ON tasks(project_id, parent_github_id);
+CREATE INDEX IF NOT EXISTS idx_task_linked_pull_requests_pr ON task_linked_pull_requests(pull_request_github_id);
+CREATE INDEX IF NOT EXISTS idx_task_iterations_task_id ON task_iterations(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_iterations_iteration_id ON task_iterations(iteration_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received_at ON webhook_deliveries(received_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_pending ON webhook_dead_letters(failed_at) WHERE replayed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_bulk_jobs_created_at ON bulk_jobs(created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bulk_jobs_undo_of ON bulk_jobs(undo_of);
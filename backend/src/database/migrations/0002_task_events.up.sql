@@ -0,0 +1,15 @@
+-- Field-level task changes, found by comparing each stored task with the
+-- values a sync, webhook or dashboard edit is about to write
+CREATE TABLE task_events (
+  id BIGSERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  event_type VARCHAR(30) NOT NULL, -- e.g. status_changed, due_date_changed
+  old_value TEXT,
+  new_value TEXT,
+  source VARCHAR(20) NOT NULL, -- sync, webhook or edit
+  sync_run_id INTEGER REFERENCES sync_runs(id) ON DELETE SET NULL,
+  detected_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_task_events_task_id ON task_events(task_id, detected_at);
+CREATE INDEX idx_task_events_detected_at ON task_events(detected_at);
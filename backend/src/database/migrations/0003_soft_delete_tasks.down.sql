@@ -0,0 +1,6 @@
+-- Removed tasks were deleted outright before this migration
+DELETE FROM tasks WHERE removed_from_project_at IS NOT NULL;
+
+ALTER TABLE sync_runs DROP COLUMN removals_withheld;
+ALTER TABLE sync_runs DROP COLUMN tasks_removed;
+ALTER TABLE tasks DROP COLUMN removed_from_project_at;
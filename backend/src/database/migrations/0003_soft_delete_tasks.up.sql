@@ -0,0 +1,10 @@
+-- Tasks whose item left the board are kept, with their history, and marked
+-- with when that was noticed; they come back if the item is seen again
+ALTER TABLE tasks ADD COLUMN removed_from_project_at TIMESTAMP;
+
+CREATE INDEX idx_tasks_removed_from_project_at ON tasks(project_id, removed_from_project_at);
+
+-- Tasks marked removed by a sync, and removals it held back because they
+-- exceeded the safety threshold
+ALTER TABLE sync_runs ADD COLUMN tasks_removed INTEGER;
+ALTER TABLE sync_runs ADD COLUMN removals_withheld INTEGER;
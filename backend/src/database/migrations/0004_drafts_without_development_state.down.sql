@@ -0,0 +1 @@
+UPDATE tasks SET development_state = 'NO_PR' WHERE type = 'DRAFT_ISSUE';
@@ -0,0 +1,3 @@
+-- Draft issues can not have linked pull requests, so they have no
+-- development state (it used to be NO_PR)
+UPDATE tasks SET development_state = NULL WHERE type = 'DRAFT_ISSUE';
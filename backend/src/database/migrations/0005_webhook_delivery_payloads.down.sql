@@ -0,0 +1,2 @@
+ALTER TABLE webhook_deliveries DROP COLUMN started_at;
+ALTER TABLE webhook_deliveries DROP COLUMN payload;
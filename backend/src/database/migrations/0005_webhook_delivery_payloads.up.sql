@@ -0,0 +1,5 @@
+-- Deliveries are acknowledged before they are processed. The payload is kept
+-- until processing ends, so a delivery cut off by a restart, or redelivered
+-- after its processing stalled, can be processed again.
+ALTER TABLE webhook_deliveries ADD COLUMN payload JSONB;
+ALTER TABLE webhook_deliveries ADD COLUMN started_at TIMESTAMP NOT NULL DEFAULT NOW();
@@ -0,0 +1,67 @@
+import { query } from './connection';
+import { Project } from '../types/task';
+
+function rowToProject(row: any): Project {
+  return {
+    id: row.id,
+    org: row.org,
+    number: row.number,
+    slug: `${row.org}/${row.number}`,
+    nodeId: row.node_id,
+    title: row.title,
+  };
+}
+
+/**
+ * Repository for the monitored GitHub projects
+ */
+export class ProjectRepository {
+  /**
+   * Register a project (or refresh its node ID and title) and return it
+   */
+  async upsertProject(
+    org: string,
+    number: number,
+    nodeId: string | null,
+    title: string | null
+  ): Promise<Project> {
+    const sql = `
+      INSERT INTO projects (org, number, node_id, title)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (org, number)
+      DO UPDATE SET
+        node_id = COALESCE(EXCLUDED.node_id, projects.node_id),
+        title = COALESCE(EXCLUDED.title, projects.title)
+      RETURNING id, org, number, node_id, title
+    `;
+
+    const result = await query(sql, [org, number, nodeId, title]);
+    return rowToProject(result.rows[0]);
+  }
+
+  /**
+   * Get all known projects
+   */
+  async getProjects(): Promise<Project[]> {
+    const result = await query(
+      'SELECT id, org, number, node_id, title FROM projects ORDER BY org, number'
+    );
+    return result.rows.map(rowToProject);
+  }
+
+  /**
+   * Look up a project by its "org/number" slug
+   */
+  async findBySlug(slug: string): Promise<Project | null> {
+    const match = slug.match(/^([^/]+)\/(\d+)$/);
+    if (!match) {
+      return null;
+    }
+
+    const result = await query(
+      'SELECT id, org, number, node_id, title FROM projects WHERE org = $1 AND number = $2',
+      [match[1], parseInt(match[2], 10)]
+    );
+    return result.rows.length > 0 ? rowToProject(result.rows[0]) : null;
+  }
+}
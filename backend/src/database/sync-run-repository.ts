@@ -0,0 +1,115 @@
+import { query } from './connection';
+import { SyncRun, SyncMode } from '../types/task';
+
+/**
+ * Repository for the polling run log
+ */
+export class SyncRunRepository {
+  /**
+   * Record the start of a polling run and return its ID
+   */
+  async startRun(projectId: number, mode: SyncMode): Promise<number> {
+    const result = await query(
+      `INSERT INTO sync_runs (project_id, started_at, status, mode) VALUES ($1, NOW(), 'running', $2) RETURNING id`,
+      [projectId, mode]
+    );
+    return result.rows[0].id;
+  }
+
+  /**
+   * Record the outcome of a polling run
+   */
+  async finishRun(
+    id: number,
+    outcome: {
+      status: 'success' | 'error';
+      error?: string | null;
+      tasksFetched?: number | null;
+      pointsUsed: number;
+      pointsRemaining: number | null;
+      highWaterMark?: Date | null;
+      truncatedItems?: number | null;
+      tasksRemoved?: number | null;
+      removalsWithheld?: number | null;
+    }
+  ): Promise<void> {
+    const sql = `
+      UPDATE sync_runs SET
+        finished_at = NOW(),
+        status = $2,
+        error = $3,
+        tasks_fetched = $4,
+        rate_limit_points_used = $5,
+        rate_limit_remaining = $6,
+        high_water_mark = $7,
+        truncated_items = $8,
+        tasks_removed = $9,
+        removals_withheld = $10
+      WHERE id = $1
+    `;
+
+    await query(sql, [
+      id,
+      outcome.status,
+      outcome.error ?? null,
+      outcome.tasksFetched ?? null,
+      outcome.pointsUsed,
+      outcome.pointsRemaining,
+      outcome.highWaterMark ?? null,
+      outcome.truncatedItems ?? null,
+      outcome.tasksRemoved ?? null,
+      outcome.removalsWithheld ?? null,
+    ]);
+  }
+
+  /**
+   * Get the most recent polling runs
+   */
+  async getRecentRuns(limit: number = 20): Promise<SyncRun[]> {
+    const sql = `
+      SELECT r.id, p.org || '/' || p.number as project, r.mode, r.started_at, r.finished_at,
+             r.status, r.error, r.tasks_fetched, r.rate_limit_points_used,
+             r.rate_limit_remaining, r.high_water_mark, r.truncated_items, r.tasks_removed,
+             r.removals_withheld
+      FROM sync_runs r
+      LEFT JOIN projects p ON p.id = r.project_id
+      ORDER BY r.started_at DESC
+      LIMIT $1
+    `;
+
+    const result = await query(sql, [limit]);
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      project: row.project,
+      mode: row.mode,
+      startedAt: new Date(row.started_at),
+      finishedAt: row.finished_at ? new Date(row.finished_at) : null,
+      status: row.status,
+      error: row.error,
+      tasksFetched: row.tasks_fetched,
+      pointsUsed: row.rate_limit_points_used,
+      pointsRemaining: row.rate_limit_remaining,
+      highWaterMark: row.high_water_mark ? new Date(row.high_water_mark) : null,
+      truncatedItems: row.truncated_items,
+      tasksRemoved: row.tasks_removed,
+      removalsWithheld: row.removals_withheld,
+    }));
+  }
+
+  /**
+   * Get the high-water mark of a project's last successful run, if any
+   */
+  async getLastHighWaterMark(projectId: number): Promise<Date | null> {
+    const sql = `
+      SELECT high_water_mark
+      FROM sync_runs
+      WHERE project_id = $1 AND status = 'success' AND high_water_mark IS NOT NULL
+      ORDER BY started_at DESC
+      LIMIT 1
+    `;
+
+    const result = await query(sql, [projectId]);
+    return result.rows.length > 0 ? new Date(result.rows[0].high_water_mark) : null;
+  }
+}
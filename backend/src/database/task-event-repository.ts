@@ -0,0 +1,56 @@
+import { query } from './connection';
+import { TaskEvent, TaskEventFilters } from '../types/task-event';
+
+/**
+ * Repository for reading the task change log. Events are written by
+ * TaskRepository as part of storing tasks.
+ */
+export class TaskEventRepository {
+  /**
+   * Events matching the filters, newest first
+   */
+  async getEvents(filters: TaskEventFilters): Promise<TaskEvent[]> {
+    const sql = `
+      SELECT e.id, p.org || '/' || p.number as project, t.project_item_id, t.github_id, t.title,
+             t.repository, t.number, e.event_type, e.old_value, e.new_value, e.source,
+             e.sync_run_id, e.detected_at
+      FROM task_events e
+      JOIN tasks t ON t.id = e.task_id
+      LEFT JOIN projects p ON p.id = t.project_id
+      WHERE ($1::int IS NULL OR t.project_id = $1)
+        AND ($2::text IS NULL OR t.github_id = $2)
+        AND ($3::text[] IS NULL OR e.event_type = ANY($3))
+        AND ($4::text IS NULL OR t.repository = $4)
+        AND ($5::timestamp IS NULL OR e.detected_at >= $5)
+        AND ($6::timestamp IS NULL OR e.detected_at < $6)
+      ORDER BY e.detected_at DESC, e.id DESC
+      LIMIT $7
+    `;
+
+    const result = await query(sql, [
+      filters.projectId ?? null,
+      filters.githubId ?? null,
+      filters.types ?? null,
+      filters.repository ?? null,
+      filters.since ?? null,
+      filters.until ?? null,
+      filters.limit,
+    ]);
+
+    return result.rows.map((row) => ({
+      id: Number(row.id),
+      project: row.project,
+      taskId: row.project_item_id,
+      githubId: row.github_id,
+      title: row.title,
+      repository: row.repository,
+      number: row.number,
+      type: row.event_type,
+      oldValue: row.old_value,
+      newValue: row.new_value,
+      source: row.source,
+      syncRunId: row.sync_run_id,
+      detectedAt: new Date(row.detected_at),
+    }));
+  }
+}
@@ -0,0 +1,176 @@
+import { TaskRepository } from './task-repository';
+import { ProjectRepository } from './project-repository';
+import { SyncRunRepository } from './sync-run-repository';
+import { closePool, query } from './connection';
+import { GitHubFetcherService } from '../services/github-fetcher';
+import { Task } from '../types/task';
+import { describeWithDatabase, resetDatabase, useGitHubFixtures } from '../test/helpers';
+
+describeWithDatabase('TaskRepository.upsertTasks', () => {
+  const repository = new TaskRepository();
+  let board: Task[];
+  let projectId: number;
+
+  function boardTask(itemId: string, changes: Partial<Task> = {}): Task {
+    return { ...board.find((task) => task.id === itemId)!, ...changes };
+  }
+
+  async function openAssignees(itemId: string): Promise<string[]> {
+    const result = await query(
+      `SELECT ta.assignee FROM task_assignments ta JOIN tasks t ON t.id = ta.task_id
+       WHERE t.project_item_id = $1 AND ta.unassigned_at IS NULL ORDER BY ta.assignee`,
+      [itemId]
+    );
+    return result.rows.map((row) => row.assignee);
+  }
+
+  async function assignmentHistory(itemId: string): Promise<Array<[string, boolean]>> {
+    const result = await query(
+      `SELECT ta.assignee, ta.unassigned_at IS NULL AS open
+       FROM task_assignments ta JOIN tasks t ON t.id = ta.task_id
+       WHERE t.project_item_id = $1 ORDER BY ta.id`,
+      [itemId]
+    );
+    return result.rows.map((row) => [row.assignee, row.open]);
+  }
+
+  // The recorded board, as the fetcher transforms it
+  beforeAll(async () => {
+    useGitHubFixtures('board');
+    const fetcher = new GitHubFetcherService('fixture-org', 1);
+    await fetcher.initialize();
+    board = (await fetcher.fetchTasks()).tasks;
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+    const project = await new ProjectRepository().upsertProject('fixture-org', 1, 'PVT_fixture1', 'Fixture Board');
+    projectId = project.id;
+    await repository.upsertTasks(projectId, board, 'sync');
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  it('stores every task with its field values, linked pull requests and assignees', async () => {
+    const stored = await repository.getTasksWithAssignees(projectId);
+    const issue = stored.find((task) => task.id === 'PVTI_1')!;
+    const draft = stored.find((task) => task.id === 'PVTI_7')!;
+    const pullRequest = stored.find((task) => task.id === 'PVTI_5')!;
+
+    expect(stored).toHaveLength(8);
+    expect(issue.assignees.sort()).toEqual(['alice', 'bob']);
+    expect(issue.fields).toEqual({
+      Status: 'In Progress',
+      Priority: 'P1',
+      'First Tech Handoff ETA': '2026-10-01',
+      Sprint: 'Sprint 42',
+    });
+    expect(issue.linkedPullRequests).toEqual([
+      { githubId: 'acme/api#5', state: 'OPEN', isDraft: false, url: 'https://github.com/acme/api/pull/5' },
+    ]);
+    expect(issue.developmentState).toBe('IN_REVIEW');
+    expect(draft.githubId).toBe('draft:DI_7');
+    expect(draft.developmentState).toBeNull();
+    expect(pullRequest.pullRequest?.requestedReviewers).toEqual(['carol']);
+    expect(pullRequest.pullRequest?.checksState).toBe('SUCCESS');
+  });
+
+  it('records changes to stored tasks as events, and none for new tasks', async () => {
+    const runId = await new SyncRunRepository().startRun(projectId, 'full');
+
+    await repository.upsertTasks(
+      projectId,
+      [
+        boardTask('PVTI_1', { status: 'In Review', title: 'Set up CI pipeline' }),
+        boardTask('PVTI_2'), // Unchanged
+      ],
+      'sync',
+      runId
+    );
+
+    const events = await query(
+      `SELECT event_type, old_value, new_value, source, sync_run_id FROM task_events ORDER BY event_type`
+    );
+    expect(events.rows).toEqual([
+      { event_type: 'status_changed', old_value: 'In Progress', new_value: 'In Review', source: 'sync', sync_run_id: runId },
+      { event_type: 'title_changed', old_value: 'Set up CI', new_value: 'Set up CI pipeline', source: 'sync', sync_run_id: runId },
+    ]);
+  });
+
+  it('closes every open assignment when a task has no assignees left', async () => {
+    await repository.upsertTasks(projectId, [boardTask('PVTI_1', { assignees: [] })], 'sync');
+
+    expect(await openAssignees('PVTI_1')).toEqual([]);
+    expect(await assignmentHistory('PVTI_1')).toEqual([
+      ['alice', false],
+      ['bob', false],
+    ]);
+    const [stored] = (await repository.getTasksWithAssignees(projectId)).filter((t) => t.id === 'PVTI_1');
+    expect(stored.assignees).toEqual([]);
+
+    // Assigning someone again opens a new assignment, keeping the old one
+    await repository.upsertTasks(projectId, [boardTask('PVTI_1', { assignees: ['alice'] })], 'sync');
+
+    expect(await assignmentHistory('PVTI_1')).toEqual([
+      ['alice', false],
+      ['bob', false],
+      ['alice', true],
+    ]);
+  });
+
+  it('closes only the assignments of people no longer assigned', async () => {
+    await repository.upsertTasks(projectId, [boardTask('PVTI_1', { assignees: ['bob', 'carol', 'carol'] })], 'sync');
+
+    expect(await openAssignees('PVTI_1')).toEqual(['bob', 'carol']);
+    expect(await assignmentHistory('PVTI_1')).toEqual([
+      ['alice', false],
+      ['bob', true],
+      ['carol', true],
+    ]);
+  });
+
+  it('replaces field values and linked pull requests with the current sets', async () => {
+    await repository.upsertTasks(
+      projectId,
+      [
+        boardTask('PVTI_1', {
+          fields: { Status: 'In Progress', Priority: 'P2' },
+          linkedPullRequests: [
+            { githubId: 'acme/api#9', state: 'OPEN', isDraft: true, url: 'https://github.com/acme/api/pull/9' },
+          ],
+        }),
+      ],
+      'sync'
+    );
+
+    const [stored] = (await repository.getAllTasks(projectId)).filter((t) => t.id === 'PVTI_1');
+    expect(stored.fields).toEqual({ Status: 'In Progress', Priority: 'P2' });
+    expect(stored.linkedPullRequests.map((pr) => pr.githubId)).toEqual(['acme/api#9']);
+  });
+
+  it('keeps the task and its history when a draft is converted to an issue', async () => {
+    const before = await query(`SELECT id FROM tasks WHERE project_item_id = 'PVTI_7'`);
+
+    await repository.upsertTasks(
+      projectId,
+      [boardTask('PVTI_7', { githubId: 'acme/api#12', number: 12, type: 'ISSUE', repository: 'acme/api' })],
+      'sync'
+    );
+
+    const after = await query(`SELECT id, github_id, type FROM tasks WHERE project_item_id = 'PVTI_7'`);
+    expect(after.rows).toEqual([{ id: before.rows[0].id, github_id: 'acme/api#12', type: 'ISSUE' }]);
+    expect(await openAssignees('PVTI_7')).toEqual(['dave']);
+  });
+
+  it('puts a removed task back on the board when it is written again', async () => {
+    const remaining = board.filter((task) => task.id !== 'PVTI_8').map((task) => task.id);
+    expect(await repository.markTasksNotInListRemoved(projectId, remaining)).toBe(1);
+    expect(await repository.getAllTasks(projectId)).toHaveLength(7);
+
+    await repository.upsertTasks(projectId, [boardTask('PVTI_8')], 'sync');
+
+    expect(await repository.getAllTasks(projectId)).toHaveLength(8);
+  });
+});
@@ -1,263 +1,562 @@
-import { query, getClient } from './connection';
-import { Task, TaskSnapshot, TaskAssignment, HistoricalData } from '../types/task';
+import { PoolClient } from 'pg';
+import { query, getClient, withTransaction } from './connection';
+import {
+  Task,
+  RemovedTask,
+  TaskSnapshot,
+  TaskAssignment,
+  HistoricalData,
+  ReconstructedSnapshot,
+} from '../types/task';
+import { TaskEventSource } from '../types/task-event';
+
+// Columns selected for a task row, with its project slug
+const TASK_COLUMNS = `
+  t.project_item_id as id,
+  p.org || '/' || p.number as project,
+  t.github_id,
+  t.title,
+  t.number,
+  t.type,
+  t.state,
+  t.status,
+  t.priority,
+  t.repository,
+  t.created_at,
+  t.updated_at,
+  t.due_date,
+  t.estimate,
+  t.iteration_id,
+  t.labels,
+  t.milestone,
+  t.author,
+  t.issue_type,
+  t.closed_at,
+  t.merged_at,
+  t.added_to_project_at,
+  t.parent_github_id,
+  t.sub_issues_total,
+  t.sub_issues_completed,
+  t.is_draft,
+  t.review_decision,
+  t.requested_reviewers,
+  t.review_count,
+  t.first_review_at,
+  t.mergeable,
+  t.checks_state,
+  t.development_state,
+  COALESCE(
+    (SELECT jsonb_object_agg(fv.field_name, fv.value) FROM task_field_values fv WHERE fv.task_id = t.id),
+    '{}'::jsonb
+  ) as fields,
+  COALESCE(
+    (SELECT jsonb_agg(jsonb_build_object(
+       'githubId', lp.pull_request_github_id, 'state', lp.state, 'isDraft', lp.is_draft, 'url', lp.url
+     ) ORDER BY lp.pull_request_github_id)
+     FROM task_linked_pull_requests lp WHERE lp.task_id = t.id),
+    '[]'::jsonb
+  ) as linked_pull_requests
+`;
+
+// Tasks being written, one row per task, loaded in batches from JSON and
+// written to the task tables with set-based statements. Dropped at commit.
+const CREATE_STAGING_SQL = `
+  CREATE TEMP TABLE task_staging (
+    github_id TEXT NOT NULL,
+    project_item_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    number INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    state TEXT NOT NULL,
+    status TEXT,
+    priority TEXT,
+    repository TEXT,
+    created_at TIMESTAMP NOT NULL,
+    updated_at TIMESTAMP NOT NULL,
+    due_date TIMESTAMP,
+    added_to_project_at TIMESTAMP,
+    estimate NUMERIC,
+    iteration_id TEXT,
+    labels TEXT[] NOT NULL,
+    milestone TEXT,
+    author TEXT,
+    issue_type TEXT,
+    closed_at TIMESTAMP,
+    merged_at TIMESTAMP,
+    parent_github_id TEXT,
+    sub_issues_total INTEGER NOT NULL,
+    sub_issues_completed INTEGER NOT NULL,
+    is_draft BOOLEAN,
+    review_decision TEXT,
+    requested_reviewers TEXT[],
+    review_count INTEGER,
+    first_review_at TIMESTAMP,
+    mergeable TEXT,
+    checks_state TEXT,
+    development_state TEXT,
+    fields JSONB NOT NULL, -- Field name to value
+    linked_pull_requests JSONB NOT NULL, -- [{github_id, state, is_draft, url}]
+    assignees TEXT[] NOT NULL
+  ) ON COMMIT DROP
+`;
+
+const LOAD_STAGING_SQL = `
+  INSERT INTO task_staging
+  SELECT * FROM jsonb_to_recordset($1::jsonb) AS r(
+    github_id TEXT, project_item_id TEXT, title TEXT, number INTEGER, type TEXT, state TEXT,
+    status TEXT, priority TEXT, repository TEXT, created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ,
+    due_date TIMESTAMPTZ, added_to_project_at TIMESTAMPTZ, estimate NUMERIC, iteration_id TEXT,
+    labels TEXT[], milestone TEXT, author TEXT, issue_type TEXT, closed_at TIMESTAMPTZ,
+    merged_at TIMESTAMPTZ, parent_github_id TEXT, sub_issues_total INTEGER, sub_issues_completed INTEGER,
+    is_draft BOOLEAN, review_decision TEXT, requested_reviewers TEXT[], review_count INTEGER,
+    first_review_at TIMESTAMPTZ, mergeable TEXT, checks_state TEXT, development_state TEXT,
+    fields JSONB, linked_pull_requests JSONB, assignees TEXT[]
+  )
+`;
+
+// The tasks of project $1, or the tasks no project claimed when $1 is null
+const PROJECT_OR_UNOWNED = `($1::int IS NULL AND project_id IS NULL OR project_id = $1)`;
+
+// Staged tasks with their stored row; $1 is the project ID
+const STAGED_TASKS = `task_staging s JOIN tasks t ON t.project_id = $1 AND t.github_id = s.github_id`;
+
+// Carry a task over to its new github_id when the item's content changes
+// identity (a draft converted to an issue, or an issue transferred to
+// another repository), keeping its history
+const RENAME_TASKS_SQL = `
+  UPDATE tasks t SET github_id = s.github_id
+  FROM task_staging s
+  WHERE t.project_id = $1 AND t.project_item_id = s.project_item_id AND t.github_id <> s.github_id
+    AND NOT EXISTS (SELECT 1 FROM tasks o WHERE o.project_id = $1 AND o.github_id = s.github_id)
+`;
+
+// Record how the tracked fields of stored tasks are about to change; run
+// before the upsert overwrites them
+const INSERT_TASK_EVENTS_SQL = `
+  INSERT INTO task_events (task_id, event_type, old_value, new_value, source, sync_run_id)
+  SELECT t.id, c.event_type, c.old_value, c.new_value, $2, $3
+  FROM ${STAGED_TASKS}
+  CROSS JOIN LATERAL (VALUES
+    ('title_changed', t.title, s.title),
+    ('state_changed', t.state, s.state),
+    ('status_changed', t.status, s.status),
+    ('priority_changed', t.priority, s.priority),
+    ('due_date_changed', to_char(t.due_date, 'YYYY-MM-DD'), to_char(s.due_date, 'YYYY-MM-DD')),
+    ('estimate_changed', t.estimate::float8::text, s.estimate::float8::text)
+  ) AS c(event_type, old_value, new_value)
+  WHERE c.old_value IS DISTINCT FROM c.new_value
+`;
+
+// Insert the staged tasks, or update them when the project already has them
+const UPSERT_TASKS_SQL = `
+  INSERT INTO tasks (
+    project_id, github_id, project_item_id, title, number, type, state, status, priority,
+    repository, created_at, updated_at, due_date, added_to_project_at, estimate, iteration_id,
+    labels, milestone, author, issue_type, closed_at, merged_at, parent_github_id,
+    sub_issues_total, sub_issues_completed, is_draft, review_decision, requested_reviewers,
+    review_count, first_review_at, mergeable, checks_state, development_state, last_synced_at
+  )
+  SELECT
+    $1, github_id, project_item_id, title, number, type, state, status, priority,
+    repository, created_at, updated_at, due_date, added_to_project_at, estimate, iteration_id,
+    labels, milestone, author, issue_type, closed_at, merged_at, parent_github_id,
+    sub_issues_total, sub_issues_completed, is_draft, review_decision, requested_reviewers,
+    review_count, first_review_at, mergeable, checks_state, development_state, NOW()
+  FROM task_staging
+  ON CONFLICT (project_id, github_id)
+  DO UPDATE SET
+    project_item_id = EXCLUDED.project_item_id,
+    title = EXCLUDED.title,
+    number = EXCLUDED.number,
+    type = EXCLUDED.type,
+    state = EXCLUDED.state,
+    status = EXCLUDED.status,
+    priority = EXCLUDED.priority,
+    repository = EXCLUDED.repository,
+    updated_at = EXCLUDED.updated_at,
+    due_date = EXCLUDED.due_date,
+    added_to_project_at = EXCLUDED.added_to_project_at,
+    estimate = EXCLUDED.estimate,
+    iteration_id = EXCLUDED.iteration_id,
+    labels = EXCLUDED.labels,
+    milestone = EXCLUDED.milestone,
+    author = EXCLUDED.author,
+    issue_type = EXCLUDED.issue_type,
+    closed_at = EXCLUDED.closed_at,
+    merged_at = EXCLUDED.merged_at,
+    parent_github_id = EXCLUDED.parent_github_id,
+    sub_issues_total = EXCLUDED.sub_issues_total,
+    sub_issues_completed = EXCLUDED.sub_issues_completed,
+    is_draft = EXCLUDED.is_draft,
+    review_decision = EXCLUDED.review_decision,
+    requested_reviewers = EXCLUDED.requested_reviewers,
+    review_count = EXCLUDED.review_count,
+    first_review_at = EXCLUDED.first_review_at,
+    mergeable = EXCLUDED.mergeable,
+    checks_state = EXCLUDED.checks_state,
+    development_state = EXCLUDED.development_state,
+    removed_from_project_at = NULL,
+    last_synced_at = NOW()
+`;
+
+// Replace the staged tasks' field values with the current sets
+const DELETE_STALE_FIELD_VALUES_SQL = `
+  DELETE FROM task_field_values fv
+  USING ${STAGED_TASKS}
+  WHERE fv.task_id = t.id AND NOT (s.fields ? fv.field_name)
+`;
+const UPSERT_FIELD_VALUES_SQL = `
+  INSERT INTO task_field_values (task_id, field_name, value)
+  SELECT t.id, f.key, f.value
+  FROM ${STAGED_TASKS}
+  CROSS JOIN jsonb_each_text(s.fields) AS f
+  ON CONFLICT (task_id, field_name)
+  DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()
+  WHERE task_field_values.value IS DISTINCT FROM EXCLUDED.value
+`;
+
+// Replace the staged tasks' linked pull requests with the current sets
+const DELETE_STALE_LINKED_PRS_SQL = `
+  DELETE FROM task_linked_pull_requests lp
+  USING ${STAGED_TASKS}
+  WHERE lp.task_id = t.id
+    AND NOT (s.linked_pull_requests @> jsonb_build_array(jsonb_build_object('github_id', lp.pull_request_github_id)))
+`;
+const UPSERT_LINKED_PRS_SQL = `
+  INSERT INTO task_linked_pull_requests (task_id, pull_request_github_id, state, is_draft, url)
+  SELECT t.id, pr.github_id, pr.state, pr.is_draft, pr.url
+  FROM ${STAGED_TASKS}
+  CROSS JOIN jsonb_to_recordset(s.linked_pull_requests) AS pr(github_id TEXT, state TEXT, is_draft BOOLEAN, url TEXT)
+  ON CONFLICT (task_id, pull_request_github_id)
+  DO UPDATE SET state = EXCLUDED.state, is_draft = EXCLUDED.is_draft, url = EXCLUDED.url, updated_at = NOW()
+  WHERE (task_linked_pull_requests.state, task_linked_pull_requests.is_draft, task_linked_pull_requests.url)
+    IS DISTINCT FROM (EXCLUDED.state, EXCLUDED.is_draft, EXCLUDED.url)
+`;
+
+// Close the assignments of people no longer assigned (all of them when the
+// task has no assignees left) and open one for each new assignee
+const CLOSE_ASSIGNMENTS_SQL = `
+  UPDATE task_assignments ta SET unassigned_at = NOW()
+  FROM ${STAGED_TASKS}
+  WHERE ta.task_id = t.id AND ta.unassigned_at IS NULL AND NOT (ta.assignee = ANY(s.assignees))
+`;
+const OPEN_ASSIGNMENTS_SQL = `
+  INSERT INTO task_assignments (task_id, assignee)
+  SELECT t.id, a.assignee
+  FROM ${STAGED_TASKS}
+  CROSS JOIN unnest(s.assignees) AS a(assignee)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM task_assignments ta
+    WHERE ta.task_id = t.id AND ta.assignee = a.assignee AND ta.unassigned_at IS NULL
+  )
+`;
+
+const STAGING_BATCH_SIZE = 1000;
+
+/**
+ * A task as a task_staging row, for LOAD_STAGING_SQL
+ */
+function toStagingRow(task: Task): Record<string, unknown> {
+  const pr = task.pullRequest;
+  return {
+    github_id: task.githubId,
+    project_item_id: task.id,
+    title: task.title,
+    number: task.number,
+    type: task.type,
+    state: task.state,
+    status: task.status,
+    priority: task.priority,
+    repository: task.repository,
+    created_at: task.createdAt,
+    updated_at: task.updatedAt,
+    due_date: task.dueDate,
+    added_to_project_at: task.addedToProjectAt,
+    estimate: task.estimate,
+    iteration_id: task.iterationId,
+    labels: task.labels,
+    milestone: task.milestone,
+    author: task.author,
+    issue_type: task.issueType,
+    closed_at: task.closedAt,
+    merged_at: task.mergedAt,
+    parent_github_id: task.parentGithubId,
+    sub_issues_total: task.subIssuesTotal,
+    sub_issues_completed: task.subIssuesCompleted,
+    is_draft: pr?.isDraft ?? null,
+    review_decision: pr?.reviewDecision ?? null,
+    requested_reviewers: pr?.requestedReviewers ?? null,
+    review_count: pr?.reviewCount ?? null,
+    first_review_at: pr?.firstReviewAt ?? null,
+    mergeable: pr?.mergeable ?? null,
+    checks_state: pr?.checksState ?? null,
+    development_state: task.developmentState,
+    fields: task.fields,
+    linked_pull_requests: task.linkedPullRequests.map((linked) => ({
+      github_id: linked.githubId,
+      state: linked.state,
+      is_draft: linked.isDraft,
+      url: linked.url,
+    })),
+    assignees: [...new Set(task.assignees)],
+  };
+}
+
+/**
+ * Map a task row to the internal Task format
+ */
+function rowToTask(row: any): Task {
+  return {
+    id: row.id,
+    project: row.project,
+    githubId: row.github_id,
+    title: row.title,
+    number: row.number,
+    type: row.type,
+    state: row.state,
+    status: row.status,
+    priority: row.priority,
+    repository: row.repository,
+    assignees: Array.isArray(row.assignees) ? row.assignees : [],
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    dueDate: row.due_date ? new Date(row.due_date) : null,
+    estimate: row.estimate !== null && row.estimate !== undefined ? parseFloat(row.estimate) : null,
+    fields: row.fields || {},
+    iterationId: row.iteration_id,
+    labels: row.labels || [],
+    milestone: row.milestone,
+    author: row.author,
+    issueType: row.issue_type,
+    closedAt: row.closed_at ? new Date(row.closed_at) : null,
+    mergedAt: row.merged_at ? new Date(row.merged_at) : null,
+    addedToProjectAt: row.added_to_project_at
+      ? new Date(row.added_to_project_at)
+      : null,
+    parentGithubId: row.parent_github_id,
+    subIssuesTotal: row.sub_issues_total ?? 0,
+    subIssuesCompleted: row.sub_issues_completed ?? 0,
+    pullRequest: row.type === 'PULL_REQUEST'
+      ? {
+          isDraft: row.is_draft ?? false,
+          reviewDecision: row.review_decision,
+          requestedReviewers: row.requested_reviewers || [],
+          reviewCount: row.review_count ?? 0,
+          firstReviewAt: row.first_review_at ? new Date(row.first_review_at) : null,
+          mergeable: row.mergeable ?? 'UNKNOWN',
+          checksState: row.checks_state,
+        }
+      : null,
+    linkedPullRequests: row.linked_pull_requests || [],
+    developmentState: row.development_state,
+  };
+}
 
 /**
  * Repository for task-related database operations
  */
 export class TaskRepository {
   /**
-   * Upsert a task (insert or update if exists)
+   * Upsert a single task in a transaction (or the caller's), recording its
+   * changes with `source` as the origin
    */
-  async upsertTask(task: Task): Promise<void> {
-    const sql = `
-      INSERT INTO tasks (
-        github_id, project_item_id, title, number, type, state, status, priority,
-        repository, created_at, updated_at, due_date, added_to_project_at, last_synced_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW())
-      ON CONFLICT (github_id)
-      DO UPDATE SET
-        title = EXCLUDED.title,
-        state = EXCLUDED.state,
-        status = EXCLUDED.status,
-        priority = EXCLUDED.priority,
-        updated_at = EXCLUDED.updated_at,
-        due_date = EXCLUDED.due_date,
-        last_synced_at = NOW()
-    `;
-
-    await query(sql, [
-      task.githubId,
-      task.id, // project_item_id
-      task.title,
-      task.number,
-      task.type,
-      task.state,
-      task.status,
-      task.priority,
-      task.repository,
-      task.createdAt,
-      task.updatedAt,
-      task.dueDate,
-      task.addedToProjectAt,
-    ]);
+  async upsertTask(projectId: number, task: Task, source: TaskEventSource): Promise<void> {
+    await withTransaction((client) => this.writeTasks(client, projectId, [task], source, null));
   }
 
   /**
-   * Upsert multiple tasks in a transaction
+   * Upsert multiple tasks of one project in a transaction (or the caller's).
+   * Works for both full and incremental syncs: rows not in `tasks` are left
+   * untouched, and an issue re-added to the board picks up its new project
+   * item ID.
+   * Changes to stored tasks are recorded as task events.
    */
-  async upsertTasks(tasks: Task[]): Promise<void> {
-    const client = await getClient();
-
+  async upsertTasks(
+    projectId: number,
+    tasks: Task[],
+    source: TaskEventSource,
+    syncRunId: number | null = null
+  ): Promise<void> {
     try {
-      await client.query('BEGIN');
-
-      for (const task of tasks) {
-        const sql = `
-          INSERT INTO tasks (
-            github_id, project_item_id, title, number, type, state, status, priority,
-            repository, created_at, updated_at, due_date, added_to_project_at, last_synced_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW())
-          ON CONFLICT (github_id)
-          DO UPDATE SET
-            title = EXCLUDED.title,
-            state = EXCLUDED.state,
-            status = EXCLUDED.status,
-            priority = EXCLUDED.priority,
-            updated_at = EXCLUDED.updated_at,
-            due_date = EXCLUDED.due_date,
-            last_synced_at = NOW()
-        `;
-
-        await client.query(sql, [
-          task.githubId,
-          task.id,
-          task.title,
-          task.number,
-          task.type,
-          task.state,
-          task.status,
-          task.priority,
-          task.repository,
-          task.createdAt,
-          task.updatedAt,
-          task.dueDate,
-          task.addedToProjectAt,
-        ]);
-      }
-
-      await client.query('COMMIT');
-      console.log(`✓ Upserted ${tasks.length} tasks`);
+      const events = await withTransaction((client) =>
+        this.writeTasks(client, projectId, tasks, source, syncRunId)
+      );
+      console.log(`✓ Upserted ${tasks.length} tasks (${events} changes recorded)`);
     } catch (error) {
-      await client.query('ROLLBACK');
       console.error('Error upserting tasks:', error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 
   /**
-   * Sync task assignments
+   * Write tasks with their field values, linked pull requests and
+   * assignees, and record how they differ from the stored rows, in a few
+   * set-based statements however many tasks there are. Returns the number
+   * of events recorded.
    */
-  async syncTaskAssignments(githubId: string, assignees: string[]): Promise<void> {
-    const client = await getClient();
+  private async writeTasks(
+    client: PoolClient,
+    projectId: number,
+    tasks: Task[],
+    source: TaskEventSource,
+    syncRunId: number | null
+  ): Promise<number> {
+    if (tasks.length === 0) {
+      return 0;
+    }
 
-    try {
-      await client.query('BEGIN');
+    await client.query(CREATE_STAGING_SQL);
+    for (let i = 0; i < tasks.length; i += STAGING_BATCH_SIZE) {
+      const batch = tasks.slice(i, i + STAGING_BATCH_SIZE);
+      await client.query(LOAD_STAGING_SQL, [JSON.stringify(batch.map(toStagingRow))]);
+    }
+    // Temporary tables are not analyzed automatically
+    await client.query('ANALYZE task_staging');
+
+    await client.query(RENAME_TASKS_SQL, [projectId]);
+    const events = await client.query(INSERT_TASK_EVENTS_SQL, [projectId, source, syncRunId]);
+    await client.query(UPSERT_TASKS_SQL, [projectId]);
+
+    await client.query(DELETE_STALE_FIELD_VALUES_SQL, [projectId]);
+    await client.query(UPSERT_FIELD_VALUES_SQL, [projectId]);
+    await client.query(DELETE_STALE_LINKED_PRS_SQL, [projectId]);
+    await client.query(UPSERT_LINKED_PRS_SQL, [projectId]);
+    await client.query(CLOSE_ASSIGNMENTS_SQL, [projectId]);
+    await client.query(OPEN_ASSIGNMENTS_SQL, [projectId]);
+
+    await client.query('DROP TABLE task_staging');
+    return events.rowCount ?? 0;
+  }
 
-      // Get task database ID
-      const taskResult = await client.query(
-        'SELECT id FROM tasks WHERE github_id = $1',
-        [githubId]
-      );
+  /**
+   * Assign tasks stored before multi-project support to their project,
+   * matching on project item ID (item IDs are unique across projects).
+   * Tasks missing from the list stay unassigned until a later sync lists
+   * their item; they are never deleted here. A claimed task is on the board,
+   * so it is no longer marked removed.
+   */
+  async claimTasks(projectId: number, projectItemIds: string[]): Promise<number> {
+    if (projectItemIds.length === 0) {
+      return 0;
+    }
 
-      if (taskResult.rows.length === 0) {
-        throw new Error(`Task not found: ${githubId}`);
-      }
+    const result = await query(
+      `UPDATE tasks SET project_id = $1, removed_from_project_at = NULL
+       WHERE project_id IS NULL AND project_item_id = ANY($2)`,
+      [projectId, projectItemIds]
+    );
 
-      const taskId = taskResult.rows[0].id;
+    const claimed = result.rowCount ?? 0;
+    if (claimed > 0) {
+      console.log(`✓ Assigned ${claimed} existing tasks to project`);
+    }
+    return claimed;
+  }
 
-      // Get current assignments
-      const currentAssignmentsResult = await client.query(
-        'SELECT assignee FROM task_assignments WHERE task_id = $1 AND unassigned_at IS NULL',
-        [taskId]
-      );
+  /**
+   * Get all tasks on a board, optionally limited to one project
+   */
+  async getAllTasks(projectId: number | null = null): Promise<Task[]> {
+    const sql = `
+      SELECT ${TASK_COLUMNS}
+      FROM tasks t
+      LEFT JOIN projects p ON p.id = t.project_id
+      WHERE ($1::int IS NULL OR t.project_id = $1) AND t.removed_from_project_at IS NULL
+      ORDER BY t.created_at DESC
+    `;
 
-      const currentAssignees = new Set(
-        currentAssignmentsResult.rows.map((r) => r.assignee)
-      );
+    const result = await query(sql, [projectId]);
 
-      const newAssignees = new Set(assignees);
+    // Assignees will be populated separately if needed
+    return result.rows.map(rowToTask);
+  }
 
-      // Mark removed assignees as unassigned
-      for (const assignee of currentAssignees) {
-        if (!newAssignees.has(assignee)) {
-          await client.query(
-            'UPDATE task_assignments SET unassigned_at = NOW() WHERE task_id = $1 AND assignee = $2 AND unassigned_at IS NULL',
-            [taskId, assignee]
-          );
-        }
-      }
+  /**
+   * Get tasks on a board with assignees, optionally limited to one project
+   */
+  async getTasksWithAssignees(projectId: number | null = null): Promise<Task[]> {
+    const sql = `
+      SELECT
+        ${TASK_COLUMNS},
+        COALESCE(
+          json_agg(ta.assignee) FILTER (WHERE ta.assignee IS NOT NULL AND ta.unassigned_at IS NULL),
+          '[]'
+        ) as assignees
+      FROM tasks t
+      LEFT JOIN projects p ON p.id = t.project_id
+      LEFT JOIN task_assignments ta ON t.id = ta.task_id AND ta.unassigned_at IS NULL
+      WHERE ($1::int IS NULL OR t.project_id = $1) AND t.removed_from_project_at IS NULL
+      GROUP BY t.id, p.id
+      ORDER BY t.created_at DESC
+    `;
 
-      // Add new assignees
-      for (const assignee of newAssignees) {
-        if (!currentAssignees.has(assignee)) {
-          await client.query(
-            'INSERT INTO task_assignments (task_id, assignee) VALUES ($1, $2)',
-            [taskId, assignee]
-          );
-        }
-      }
+    const result = await query(sql, [projectId]);
 
-      await client.query('COMMIT');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      console.error('Error syncing assignments:', error);
-      throw error;
-    } finally {
-      client.release();
-    }
+    return result.rows.map(rowToTask);
   }
 
   /**
-   * Get all tasks
+   * Get the tasks removed from their board, most recently removed first,
+   * with the assignees they had at the time
    */
-  async getAllTasks(): Promise<Task[]> {
+  async getRemovedTasks(projectId: number | null = null): Promise<RemovedTask[]> {
     const sql = `
       SELECT
-        project_item_id as id,
-        github_id,
-        title,
-        number,
-        type,
-        state,
-        status,
-        priority,
-        repository,
-        created_at,
-        updated_at,
-        due_date,
-        added_to_project_at
-      FROM tasks
-      ORDER BY created_at DESC
+        ${TASK_COLUMNS},
+        t.removed_from_project_at,
+        COALESCE(
+          json_agg(ta.assignee) FILTER (WHERE ta.assignee IS NOT NULL AND ta.unassigned_at IS NULL),
+          '[]'
+        ) as assignees
+      FROM tasks t
+      LEFT JOIN projects p ON p.id = t.project_id
+      LEFT JOIN task_assignments ta ON t.id = ta.task_id AND ta.unassigned_at IS NULL
+      WHERE ($1::int IS NULL OR t.project_id = $1) AND t.removed_from_project_at IS NOT NULL
+      GROUP BY t.id, p.id
+      ORDER BY t.removed_from_project_at DESC
     `;
 
-    const result = await query(sql);
+    const result = await query(sql, [projectId]);
 
     return result.rows.map((row) => ({
-      id: row.id,
-      githubId: row.github_id,
-      title: row.title,
-      number: row.number,
-      type: row.type,
-      state: row.state,
-      status: row.status,
-      priority: row.priority,
-      repository: row.repository,
-      assignees: [], // Will be populated separately if needed
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at),
-      dueDate: row.due_date ? new Date(row.due_date) : null,
-      addedToProjectAt: row.added_to_project_at
-        ? new Date(row.added_to_project_at)
-        : null,
+      ...rowToTask(row),
+      removedFromProjectAt: new Date(row.removed_from_project_at),
     }));
   }
 
   /**
-   * Get tasks with assignees
+   * Get one task with its assignees and database project ID, by project
+   * item ID. Only tasks on the board, or with `removed`, only removed ones.
    */
-  async getTasksWithAssignees(): Promise<Task[]> {
+  async findTaskByItemId(
+    projectItemId: string,
+    removed: boolean = false
+  ): Promise<{ projectId: number; task: Task } | null> {
     const sql = `
       SELECT
-        t.project_item_id as id,
-        t.github_id,
-        t.title,
-        t.number,
-        t.type,
-        t.state,
-        t.status,
-        t.priority,
-        t.repository,
-        t.created_at,
-        t.updated_at,
-        t.due_date,
-        t.added_to_project_at,
+        ${TASK_COLUMNS},
+        t.project_id,
         COALESCE(
           json_agg(ta.assignee) FILTER (WHERE ta.assignee IS NOT NULL AND ta.unassigned_at IS NULL),
           '[]'
         ) as assignees
       FROM tasks t
+      LEFT JOIN projects p ON p.id = t.project_id
       LEFT JOIN task_assignments ta ON t.id = ta.task_id AND ta.unassigned_at IS NULL
-      GROUP BY t.id, t.github_id, t.project_item_id, t.title, t.number, t.type, t.state,
-               t.status, t.priority, t.repository, t.created_at, t.updated_at, t.due_date, t.added_to_project_at
-      ORDER BY t.created_at DESC
+      WHERE t.project_item_id = $1 AND (t.removed_from_project_at IS NOT NULL) = $2
+      GROUP BY t.id, p.id
     `;
 
-    const result = await query(sql);
+    const result = await query(sql, [projectItemId, removed]);
+    if (result.rows.length === 0) {
+      return null;
+    }
 
-    return result.rows.map((row) => ({
-      id: row.id,
-      githubId: row.github_id,
-      title: row.title,
-      number: row.number,
-      type: row.type,
-      state: row.state,
-      status: row.status,
-      priority: row.priority,
-      repository: row.repository,
-      assignees: Array.isArray(row.assignees) ? row.assignees : [],
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at),
-      dueDate: row.due_date ? new Date(row.due_date) : null,
-      addedToProjectAt: row.added_to_project_at
-        ? new Date(row.added_to_project_at)
-        : null,
-    }));
+    return { projectId: result.rows[0].project_id, task: rowToTask(result.rows[0]) };
   }
 
   /**
-   * Create a snapshot of all tasks
+   * Create a snapshot of all tasks on a board
    */
   async createSnapshot(): Promise<void> {
     const sql = `
@@ -268,6 +567,7 @@ export class TaskRepository {
         status,
         (due_date < NOW() AND state = 'OPEN') as is_overdue
       FROM tasks
+      WHERE removed_from_project_at IS NULL
       ON CONFLICT DO NOTHING
     `;
 
@@ -276,18 +576,96 @@ export class TaskRepository {
   }
 
   /**
-   * Save daily statistics
+   * Replace a project's task snapshots between two dates (inclusive) with
+   * reconstructed ones, and recompute its daily statistics for those days.
+   * Snapshots of removed tasks are kept; they can not be reconstructed.
+   */
+  async replaceSnapshots(
+    projectId: number,
+    startDate: string,
+    endDate: string,
+    snapshots: ReconstructedSnapshot[]
+  ): Promise<void> {
+    const client = await getClient();
+    const batchSize = 5000;
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `DELETE FROM task_snapshots s
+         USING tasks t
+         WHERE s.task_id = t.id AND t.project_id = $1 AND t.removed_from_project_at IS NULL
+           AND s.snapshot_date BETWEEN $2::date AND $3::date`,
+        [projectId, startDate, endDate]
+      );
+
+      for (let i = 0; i < snapshots.length; i += batchSize) {
+        const batch = snapshots.slice(i, i + batchSize);
+        await client.query(
+          `INSERT INTO task_snapshots (task_id, snapshot_date, state, status, is_overdue)
+           SELECT t.id, s.snapshot_date, s.state, s.status, s.is_overdue
+           FROM unnest($2::text[], $3::date[], $4::text[], $5::text[], $6::boolean[])
+             AS s(project_item_id, snapshot_date, state, status, is_overdue)
+           JOIN tasks t ON t.project_id = $1 AND t.project_item_id = s.project_item_id`,
+          [
+            projectId,
+            batch.map((s) => s.projectItemId),
+            batch.map((s) => s.date),
+            batch.map((s) => s.state),
+            batch.map((s) => s.status),
+            batch.map((s) => s.isOverdue),
+          ]
+        );
+      }
+
+      await client.query(
+        `INSERT INTO daily_statistics (project_id, snapshot_date, total_tasks, open_tasks, closed_tasks, overdue_tasks)
+         SELECT
+           $1,
+           d.day::date,
+           COUNT(s.id),
+           COUNT(s.id) FILTER (WHERE s.state = 'OPEN'),
+           COUNT(s.id) FILTER (WHERE s.state IN ('CLOSED', 'MERGED')),
+           COUNT(s.id) FILTER (WHERE s.is_overdue)
+         FROM generate_series($2::date, $3::date, interval '1 day') AS d(day)
+         LEFT JOIN task_snapshots s
+           ON s.snapshot_date = d.day::date
+           AND s.task_id IN (SELECT id FROM tasks WHERE project_id = $1)
+         GROUP BY d.day
+         ON CONFLICT (project_id, snapshot_date) DO UPDATE SET
+           total_tasks = EXCLUDED.total_tasks,
+           open_tasks = EXCLUDED.open_tasks,
+           closed_tasks = EXCLUDED.closed_tasks,
+           overdue_tasks = EXCLUDED.overdue_tasks,
+           created_at = NOW()`,
+        [projectId, startDate, endDate]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error replacing snapshots:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Save daily statistics for a project
    */
   async saveDailyStatistics(
+    projectId: number,
     total: number,
     open: number,
     closed: number,
     overdue: number
   ): Promise<void> {
     const sql = `
-      INSERT INTO daily_statistics (snapshot_date, total_tasks, open_tasks, closed_tasks, overdue_tasks)
-      VALUES (CURRENT_DATE, $1, $2, $3, $4)
-      ON CONFLICT (snapshot_date)
+      INSERT INTO daily_statistics (project_id, snapshot_date, total_tasks, open_tasks, closed_tasks, overdue_tasks)
+      VALUES ($1, CURRENT_DATE, $2, $3, $4, $5)
+      ON CONFLICT (project_id, snapshot_date)
       DO UPDATE SET
         total_tasks = EXCLUDED.total_tasks,
         open_tasks = EXCLUDED.open_tasks,
@@ -296,56 +674,160 @@ export class TaskRepository {
         created_at = NOW()
     `;
 
-    await query(sql, [total, open, closed, overdue]);
+    await query(sql, [projectId, total, open, closed, overdue]);
     console.log('✓ Daily statistics saved');
   }
 
   /**
-   * Delete tasks that are not in the provided list of project item IDs
-   * This removes stale tasks from old projects when switching projects
+   * Assign statistics recorded before multi-project support to a project
+   */
+  async claimDailyStatistics(projectId: number): Promise<number> {
+    const result = await query(
+      'UPDATE daily_statistics SET project_id = $1 WHERE project_id IS NULL',
+      [projectId]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Overwrite added_to_project_at with the given project item creation times.
+   * Returns the number of tasks whose value changed.
    */
-  async deleteTasksNotInList(projectItemIds: string[]): Promise<number> {
+  async correctAddedToProjectAt(
+    projectId: number,
+    items: Array<{ projectItemId: string; addedAt: Date }>
+  ): Promise<number> {
+    if (items.length === 0) {
+      return 0;
+    }
+
+    const sql = `
+      UPDATE tasks t
+      SET added_to_project_at = i.added_at
+      FROM unnest($2::text[], $3::timestamp[]) AS i(project_item_id, added_at)
+      WHERE t.project_id = $1
+        AND t.project_item_id = i.project_item_id
+        AND t.added_to_project_at IS DISTINCT FROM i.added_at
+    `;
+
+    const result = await query(sql, [
+      projectId,
+      items.map((item) => item.projectItemId),
+      items.map((item) => item.addedAt),
+    ]);
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Count a project's tasks on the board, and how many of them are missing
+   * from the provided list of project item IDs. Without a project, counts
+   * the tasks stored before multi-project support that no project claimed.
+   */
+  async countTasksNotInList(
+    projectId: number | null,
+    projectItemIds: string[]
+  ): Promise<{ onBoard: number; missing: number }> {
+    const result = await query(
+      `SELECT COUNT(*) as on_board, COUNT(*) FILTER (WHERE project_item_id <> ALL($2)) as missing
+       FROM tasks
+       WHERE ${PROJECT_OR_UNOWNED} AND removed_from_project_at IS NULL`,
+      [projectId, projectItemIds]
+    );
+    return {
+      onBoard: parseInt(result.rows[0].on_board, 10),
+      missing: parseInt(result.rows[0].missing, 10),
+    };
+  }
+
+  /**
+   * Mark a project's tasks (or, without a project, the unclaimed ones) that
+   * are not in the provided list of project item IDs as removed from the
+   * board. Their history is kept.
+   */
+  async markTasksNotInListRemoved(projectId: number | null, projectItemIds: string[]): Promise<number> {
     if (projectItemIds.length === 0) {
       console.log('⚠ No project item IDs provided, skipping cleanup');
       return 0;
     }
 
     const sql = `
-      DELETE FROM tasks
-      WHERE project_item_id NOT IN (${projectItemIds.map((_, i) => `$${i + 1}`).join(', ')})
+      UPDATE tasks SET removed_from_project_at = NOW()
+      WHERE ${PROJECT_OR_UNOWNED} AND removed_from_project_at IS NULL AND project_item_id <> ALL($2)
       RETURNING github_id
     `;
 
-    const result = await query(sql, projectItemIds);
-    const deletedCount = result.rows.length;
+    const result = await query(sql, [projectId, projectItemIds]);
+    const removedCount = result.rows.length;
 
-    if (deletedCount > 0) {
-      console.log(`✓ Cleaned up ${deletedCount} stale tasks from database`);
+    if (removedCount > 0) {
+      console.log(`✓ Marked ${removedCount} tasks no longer on the board as removed`);
       result.rows.forEach((row) => {
         console.log(`  - Removed: ${row.github_id}`);
       });
     }
 
-    return deletedCount;
+    return removedCount;
+  }
+
+  /**
+   * Find the project items that hold an issue or PR, across all projects
+   */
+  async findItemsByGithubId(
+    githubId: string
+  ): Promise<Array<{ projectId: number; projectItemId: string }>> {
+    const result = await query(
+      `SELECT project_id, project_item_id FROM tasks
+       WHERE github_id = $1 AND project_id IS NOT NULL AND removed_from_project_at IS NULL`,
+      [githubId]
+    );
+    return result.rows.map((row) => ({
+      projectId: row.project_id,
+      projectItemId: row.project_item_id,
+    }));
+  }
+
+  /**
+   * Mark the tasks for the given project items as removed from the board
+   */
+  async markTasksRemoved(projectId: number, projectItemIds: string[]): Promise<number> {
+    if (projectItemIds.length === 0) {
+      return 0;
+    }
+
+    const result = await query(
+      `UPDATE tasks SET removed_from_project_at = NOW()
+       WHERE project_id = $1 AND project_item_id = ANY($2) AND removed_from_project_at IS NULL
+       RETURNING github_id`,
+      [projectId, projectItemIds]
+    );
+
+    result.rows.forEach((row) => {
+      console.log(`  - Removed: ${row.github_id}`);
+    });
+
+    return result.rows.length;
   }
 
   /**
-   * Get historical data for charts
+   * Get historical data for charts. Without a project, statistics are
+   * summed across all projects.
    */
-  async getHistoricalData(days: number = 30): Promise<HistoricalData[]> {
+  async getHistoricalData(days: number = 30, projectId: number | null = null): Promise<HistoricalData[]> {
     const sql = `
       SELECT
         snapshot_date::text as date,
-        total_tasks,
-        open_tasks,
-        closed_tasks,
-        overdue_tasks
+        SUM(total_tasks)::int as total_tasks,
+        SUM(open_tasks)::int as open_tasks,
+        SUM(closed_tasks)::int as closed_tasks,
+        SUM(overdue_tasks)::int as overdue_tasks
       FROM daily_statistics
       WHERE snapshot_date >= CURRENT_DATE - make_interval(days => $1::int)
+        AND ($2::int IS NULL OR project_id = $2)
+      GROUP BY snapshot_date
       ORDER BY snapshot_date ASC
     `;
 
-    const result = await query(sql, [days]);
+    const result = await query(sql, [days, projectId]);
 
     return result.rows.map((row) => ({
       date: row.date,
@@ -376,16 +858,19 @@ export class TaskRepository {
    */
   async backfillDailyStatistics(): Promise<number> {
     const sql = `
-      INSERT INTO daily_statistics (snapshot_date, total_tasks, open_tasks, closed_tasks, overdue_tasks)
+      INSERT INTO daily_statistics (project_id, snapshot_date, total_tasks, open_tasks, closed_tasks, overdue_tasks)
       SELECT
-        snapshot_date::date,
+        t.project_id,
+        s.snapshot_date::date,
         COUNT(*) as total_tasks,
-        COUNT(*) FILTER (WHERE state = 'OPEN') as open_tasks,
-        COUNT(*) FILTER (WHERE state IN ('CLOSED', 'MERGED')) as closed_tasks,
-        COUNT(*) FILTER (WHERE is_overdue = true) as overdue_tasks
-      FROM task_snapshots
-      GROUP BY snapshot_date::date
-      ON CONFLICT (snapshot_date) DO UPDATE SET
+        COUNT(*) FILTER (WHERE s.state = 'OPEN') as open_tasks,
+        COUNT(*) FILTER (WHERE s.state IN ('CLOSED', 'MERGED')) as closed_tasks,
+        COUNT(*) FILTER (WHERE s.is_overdue = true) as overdue_tasks
+      FROM task_snapshots s
+      JOIN tasks t ON t.id = s.task_id
+      WHERE t.project_id IS NOT NULL
+      GROUP BY t.project_id, s.snapshot_date::date
+      ON CONFLICT (project_id, snapshot_date) DO UPDATE SET
         total_tasks = EXCLUDED.total_tasks,
         open_tasks = EXCLUDED.open_tasks,
         closed_tasks = EXCLUDED.closed_tasks,
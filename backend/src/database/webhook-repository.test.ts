@@ -0,0 +1,59 @@
+import { readFileSync } from 'fs';
+import { WebhookRepository } from './webhook-repository';
+import { closePool, query } from './connection';
+import { describeWithDatabase, resetDatabase, webhookFixturePath } from '../test/helpers';
+
+const STALE_MINUTES = 30;
+
+describeWithDatabase('WebhookRepository', () => {
+  const repository = new WebhookRepository();
+  const payload = JSON.parse(readFileSync(webhookFixturePath('projects_v2_item.edited.json'), 'utf-8'));
+
+  function delivery(deliveryId: string) {
+    return { deliveryId, event: 'projects_v2_item', action: 'edited', payload };
+  }
+
+  // Make a claimed delivery look as if its processing started a while ago
+  async function startedMinutesAgo(deliveryId: string, minutes: number): Promise<void> {
+    await query(
+      `UPDATE webhook_deliveries SET started_at = NOW() - make_interval(mins => $2) WHERE delivery_id = $1`,
+      [deliveryId, minutes]
+    );
+  }
+
+  beforeEach(async () => {
+    await resetDatabase();
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  it('claims a delivery once until it has stalled', async () => {
+    expect(await repository.claimDelivery(delivery('d-1'), STALE_MINUTES)).toBe(true);
+    expect(await repository.claimDelivery(delivery('d-1'), STALE_MINUTES)).toBe(false);
+
+    await startedMinutesAgo('d-1', STALE_MINUTES + 1);
+    expect(await repository.claimDelivery(delivery('d-1'), STALE_MINUTES)).toBe(true);
+
+    await repository.finishDelivery('d-1', 'processed');
+    await startedMinutesAgo('d-1', STALE_MINUTES + 1);
+    expect(await repository.claimDelivery(delivery('d-1'), STALE_MINUTES)).toBe(false);
+  });
+
+  it('resumes only stalled deliveries, leaving ones still being processed alone', async () => {
+    await repository.claimDelivery(delivery('stalled'), STALE_MINUTES);
+    await repository.claimDelivery(delivery('in-progress'), STALE_MINUTES);
+    await repository.claimDelivery(delivery('finished'), STALE_MINUTES);
+    await repository.finishDelivery('finished', 'processed');
+    await startedMinutesAgo('stalled', STALE_MINUTES + 1);
+    await startedMinutesAgo('in-progress', STALE_MINUTES - 1);
+    await startedMinutesAgo('finished', STALE_MINUTES + 1);
+
+    const resumed = await repository.claimUnfinishedDeliveries(STALE_MINUTES);
+
+    expect(resumed).toEqual([delivery('stalled')]);
+    // Claiming restarted the clock, so another instance does not take it too
+    expect(await repository.claimUnfinishedDeliveries(STALE_MINUTES)).toEqual([]);
+  });
+});
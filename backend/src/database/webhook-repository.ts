@@ -0,0 +1,131 @@
+import { query } from './connection';
+import { DeliveryStatus, WebhookDeadLetter, WebhookDelivery } from '../types/webhook';
+
+function rowToDeadLetter(row: any): WebhookDeadLetter {
+  return {
+    id: row.id,
+    deliveryId: row.delivery_id,
+    event: row.event,
+    action: row.action,
+    payload: row.payload,
+    error: row.error,
+    attempts: row.attempts,
+    failedAt: row.failed_at,
+    replayedAt: row.replayed_at,
+  };
+}
+
+/**
+ * Repository for webhook delivery tracking and the dead-letter queue
+ */
+export class WebhookRepository {
+  /**
+   * Record a delivery and claim it for processing. Returns false if the
+   * delivery ID was seen before and has finished, or started processing
+   * less than `staleMinutes` ago; it must not be processed (again) then.
+   */
+  async claimDelivery(delivery: WebhookDelivery, staleMinutes: number): Promise<boolean> {
+    const result = await query(
+      `INSERT INTO webhook_deliveries (delivery_id, event, action, payload)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (delivery_id) DO UPDATE SET payload = EXCLUDED.payload, started_at = NOW()
+       WHERE webhook_deliveries.status = 'processing'
+         AND webhook_deliveries.started_at < NOW() - make_interval(mins => $5)
+       RETURNING delivery_id`,
+      [delivery.deliveryId, delivery.event, delivery.action, JSON.stringify(delivery.payload), staleMinutes]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Claim the deliveries that were accepted but have not finished after
+   * `staleMinutes`, e.g. because the process handling them stopped part way
+   * through. Deliveries another process is still working on are left alone.
+   */
+  async claimUnfinishedDeliveries(staleMinutes: number): Promise<WebhookDelivery[]> {
+    const result = await query(
+      `WITH claimed AS (
+         UPDATE webhook_deliveries SET started_at = NOW()
+         WHERE status = 'processing' AND payload IS NOT NULL
+           AND started_at < NOW() - make_interval(mins => $1)
+         RETURNING delivery_id, event, action, payload, received_at
+       )
+       SELECT delivery_id, event, action, payload FROM claimed ORDER BY received_at`,
+      [staleMinutes]
+    );
+    return result.rows.map((row) => ({
+      deliveryId: row.delivery_id,
+      event: row.event,
+      action: row.action,
+      payload: row.payload,
+    }));
+  }
+
+  /**
+   * Record how processing a delivery ended; the payload is no longer needed
+   */
+  async finishDelivery(deliveryId: string, status: DeliveryStatus): Promise<void> {
+    await query(
+      'UPDATE webhook_deliveries SET status = $2, processed_at = NOW(), payload = NULL WHERE delivery_id = $1',
+      [deliveryId, status]
+    );
+  }
+
+  /**
+   * Store a delivery that failed to process so it can be replayed
+   */
+  async addDeadLetter(
+    deliveryId: string,
+    event: string,
+    action: string | null,
+    payload: any,
+    error: string
+  ): Promise<number> {
+    const result = await query(
+      `INSERT INTO webhook_dead_letters (delivery_id, event, action, payload, error)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [deliveryId, event, action, JSON.stringify(payload), error]
+    );
+    return result.rows[0].id;
+  }
+
+  /**
+   * Get dead letters, newest first. By default only those not yet replayed.
+   */
+  async getDeadLetters(includeReplayed = false, limit = 50): Promise<WebhookDeadLetter[]> {
+    const result = await query(
+      `SELECT id, delivery_id, event, action, payload, error, attempts, failed_at, replayed_at
+       FROM webhook_dead_letters
+       WHERE $1 OR replayed_at IS NULL
+       ORDER BY failed_at DESC
+       LIMIT $2`,
+      [includeReplayed, limit]
+    );
+    return result.rows.map(rowToDeadLetter);
+  }
+
+  async getDeadLetter(id: number): Promise<WebhookDeadLetter | null> {
+    const result = await query(
+      `SELECT id, delivery_id, event, action, payload, error, attempts, failed_at, replayed_at
+       FROM webhook_dead_letters
+       WHERE id = $1`,
+      [id]
+    );
+    return result.rows.length > 0 ? rowToDeadLetter(result.rows[0]) : null;
+  }
+
+  /**
+   * Record the outcome of replaying a dead letter
+   */
+  async recordReplay(id: number, error: string | null): Promise<void> {
+    if (error === null) {
+      await query('UPDATE webhook_dead_letters SET replayed_at = NOW() WHERE id = $1', [id]);
+      return;
+    }
+    await query(
+      'UPDATE webhook_dead_letters SET error = $2, attempts = attempts + 1, failed_at = NOW() WHERE id = $1',
+      [id, error]
+    );
+  }
+}
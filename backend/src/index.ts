@@ -5,14 +5,23 @@ import { config } from './config';
 import { testConnection } from './database/connection';
 import { migrate } from './database/migrate';
 import { PollingService } from './services/polling-service';
-import routes, { setPollingService } from './api/routes';
+import routes, { setPollingService, resumeWebhookDeliveries } from './api/routes';
 import logger from './utils/logger';
 
 const app = express();
 
+// How often to look for webhook deliveries that stalled
+const WEBHOOK_RESUME_INTERVAL_MS = 5 * 60 * 1000;
+
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({
+  // Webhook deliveries can be large, and their signature is computed over the raw body
+  limit: '5mb',
+  verify: (req, res, buf) => {
+    (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+  },
+}));
 
 // Request logging
 app.use((req, res, next) => {
@@ -75,6 +84,9 @@ async function start() {
     const pollingService = new PollingService();
     pollingService.initialize().then(() => {
       console.log('   ✓ Polling service initialized\n');
+      resumeWebhookDeliveries();
+      // A delivery only counts as stalled after a while, so keep checking
+      setInterval(resumeWebhookDeliveries, WEBHOOK_RESUME_INTERVAL_MS).unref();
 
       // Start scheduled polling
       console.log('3. Starting scheduled polling...');
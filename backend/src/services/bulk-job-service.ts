@@ -0,0 +1,251 @@
+import { DatabaseError } from 'pg';
+import { TaskWriteService } from './task-writer';
+import { TaskRepository } from '../database/task-repository';
+import { BulkJobRepository } from '../database/bulk-job-repository';
+import { getMappedFieldName, normalizePriority } from '../utils/field-mapping';
+import { Task, TaskUpdate } from '../types/task';
+import { BulkAction, BulkJob } from '../types/bulk-job';
+
+const BULK_ACTIONS: BulkAction[] = ['setPriority', 'setStatus', 'setDueDate', 'assign', 'unassign', 'addLabel'];
+
+// Actions that need a value; the others clear the field (or, for unassign,
+// remove everyone) when the value is empty
+const VALUE_REQUIRED: BulkAction[] = ['assign', 'addLabel'];
+
+const MAX_TASKS_PER_JOB = 500;
+
+/**
+ * The job can not be started; `status` is the HTTP status to answer with
+ */
+export class BulkJobError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'BulkJobError';
+  }
+}
+
+interface PlannedChange {
+  update: TaskUpdate;
+  undo: TaskUpdate | null; // Null for undo jobs, which can not be undone
+}
+
+interface JobItem {
+  projectItemId: string;
+  update: TaskUpdate | null; // Known up front for undo jobs
+}
+
+/**
+ * Applies one triage action to many tasks as a tracked job. Items are
+ * written one at a time through the task writer, so a failure only affects
+ * its own task. Each successful item records how to put the previous value
+ * back, which is what an undo job replays.
+ */
+export class BulkJobService {
+  private taskWriteService: TaskWriteService;
+  private taskRepository: TaskRepository;
+  private bulkJobRepository: BulkJobRepository;
+
+  constructor(taskWriteService: TaskWriteService) {
+    this.taskWriteService = taskWriteService;
+    this.taskRepository = new TaskRepository();
+    this.bulkJobRepository = new BulkJobRepository();
+  }
+
+  /**
+   * Validate and record the job, then run it in the background.
+   * Returns the job as recorded so far; most items are still pending.
+   */
+  async startJob(action: string, value: unknown, projectItemIds: unknown): Promise<BulkJob> {
+    if (!BULK_ACTIONS.includes(action as BulkAction)) {
+      throw new BulkJobError(`action must be one of: ${BULK_ACTIONS.join(', ')}`);
+    }
+    const bulkAction = action as BulkAction;
+
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      throw new BulkJobError('value must be a string or null');
+    }
+    const trimmed = typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+    if (trimmed === null && VALUE_REQUIRED.includes(bulkAction)) {
+      throw new BulkJobError(`${bulkAction} needs a value`);
+    }
+    if (bulkAction === 'setDueDate' && trimmed !== null && !/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+      throw new BulkJobError('setDueDate needs a date in YYYY-MM-DD format');
+    }
+
+    if (
+      !Array.isArray(projectItemIds) ||
+      projectItemIds.length === 0 ||
+      !projectItemIds.every((id) => typeof id === 'string' && id !== '')
+    ) {
+      throw new BulkJobError('taskIds must be a non-empty array of task IDs');
+    }
+    const ids = [...new Set(projectItemIds as string[])];
+    if (ids.length > MAX_TASKS_PER_JOB) {
+      throw new BulkJobError(`A bulk job can change at most ${MAX_TASKS_PER_JOB} tasks`);
+    }
+
+    const jobId = await this.bulkJobRepository.createJob(bulkAction, trimmed, ids);
+    const items = ids.map((id) => ({ projectItemId: id, update: null }));
+    this.runInBackground(jobId, (task) => this.planChange(bulkAction, trimmed, task), items);
+
+    return (await this.bulkJobRepository.getJob(jobId))!;
+  }
+
+  /**
+   * Start a job that restores the values the items of job `jobId` had
+   * before it ran. Only items that succeeded are restored.
+   */
+  async undoJob(jobId: number): Promise<BulkJob> {
+    const job = await this.bulkJobRepository.getJob(jobId);
+    if (!job) {
+      throw new BulkJobError(`Unknown bulk job ${jobId}`, 404);
+    }
+    if (job.action === 'undo') {
+      throw new BulkJobError('An undo job can not be undone', 409);
+    }
+    if (job.undoneBy !== null) {
+      throw new BulkJobError(`Bulk job ${jobId} was already undone by job ${job.undoneBy}`, 409);
+    }
+    if (job.status === 'running') {
+      throw new BulkJobError(`Bulk job ${jobId} is still running`, 409);
+    }
+
+    const items: JobItem[] = (job.items || [])
+      .filter((item) => item.status === 'succeeded' && item.undo)
+      .map((item) => ({ projectItemId: item.projectItemId, update: item.undo }));
+    if (items.length === 0) {
+      throw new BulkJobError(`Bulk job ${jobId} changed nothing that can be undone`, 409);
+    }
+
+    let undoJobId: number;
+    try {
+      undoJobId = await this.bulkJobRepository.createJob(
+        'undo',
+        null,
+        items.map((item) => item.projectItemId),
+        jobId,
+        items.map((item) => item.update)
+      );
+    } catch (error) {
+      // Unique index on undo_of: another request undid it first
+      if (error instanceof DatabaseError && error.code === '23505') {
+        throw new BulkJobError(`Bulk job ${jobId} was already undone`, 409);
+      }
+      throw error;
+    }
+
+    this.runInBackground(undoJobId, null, items);
+    return (await this.bulkJobRepository.getJob(undoJobId))!;
+  }
+
+  /**
+   * Jobs do not survive a restart; mark the ones that were cut off
+   */
+  async recoverInterruptedJobs(): Promise<void> {
+    const interrupted = await this.bulkJobRepository.interruptRunningJobs();
+    if (interrupted > 0) {
+      console.warn(`⚠ Marked ${interrupted} bulk job(s) left running by a previous process as interrupted`);
+    }
+  }
+
+  private runInBackground(
+    jobId: number,
+    plan: ((task: Task) => PlannedChange | null) | null,
+    items: JobItem[]
+  ): void {
+    this.runJob(jobId, plan, items).catch((error) => {
+      console.error(`✗ Bulk job ${jobId} stopped:`, error.message);
+    });
+  }
+
+  private async runJob(
+    jobId: number,
+    plan: ((task: Task) => PlannedChange | null) | null,
+    items: JobItem[]
+  ): Promise<void> {
+    for (const item of items) {
+      const found = await this.taskRepository.findTaskByItemId(item.projectItemId);
+      if (!found) {
+        await this.bulkJobRepository.finishItem(jobId, item.projectItemId, 'failed', {
+          error: `Unknown task "${item.projectItemId}"`,
+        });
+        continue;
+      }
+
+      const githubId = found.task.githubId;
+      const change: PlannedChange | null = plan
+        ? plan(found.task)
+        : { update: item.update!, undo: null };
+      if (!change) {
+        await this.bulkJobRepository.finishItem(jobId, item.projectItemId, 'skipped', { githubId });
+        continue;
+      }
+
+      try {
+        await this.taskWriteService.updateTask(item.projectItemId, change.update);
+        await this.bulkJobRepository.finishItem(jobId, item.projectItemId, 'succeeded', {
+          githubId,
+          update: change.update,
+          undo: change.undo,
+        });
+      } catch (error) {
+        await this.bulkJobRepository.finishItem(jobId, item.projectItemId, 'failed', {
+          githubId,
+          update: change.update,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const status = await this.bulkJobRepository.finishJob(jobId);
+    const mark = status === 'completed' ? '✓' : '⚠';
+    console.log(`${mark} Bulk job ${jobId} finished: ${status}`);
+  }
+
+  /**
+   * The update for one task and the update that reverses it, or null when
+   * the task already has the requested value
+   */
+  private planChange(action: BulkAction, value: string | null, task: Task): PlannedChange | null {
+    switch (action) {
+      case 'setPriority': {
+        if (normalizePriority(value) === task.priority) return null;
+        return { update: { priority: value }, undo: { priority: this.rawFieldValue(task, 'priority') } };
+      }
+      case 'setStatus': {
+        if ((value ?? '').toLowerCase() === (task.status ?? '').toLowerCase()) return null;
+        return { update: { status: value }, undo: { status: task.status } };
+      }
+      case 'setDueDate': {
+        const previous = task.dueDate ? task.dueDate.toISOString().split('T')[0] : null;
+        if (value === previous) return null;
+        return { update: { dueDate: value }, undo: { dueDate: previous } };
+      }
+      case 'assign': {
+        const login = value!.replace(/^@/, '');
+        if (task.assignees.some((a) => a.toLowerCase() === login.toLowerCase())) return null;
+        return { update: { assignees: [...task.assignees, login] }, undo: { assignees: task.assignees } };
+      }
+      case 'unassign': {
+        const login = value?.replace(/^@/, '').toLowerCase();
+        const remaining = login ? task.assignees.filter((a) => a.toLowerCase() !== login) : [];
+        if (remaining.length === task.assignees.length) return null;
+        return { update: { assignees: remaining }, undo: { assignees: task.assignees } };
+      }
+      case 'addLabel': {
+        if (task.labels.some((l) => l.toLowerCase() === value!.toLowerCase())) return null;
+        return { update: { addLabels: [value!] }, undo: { removeLabels: [value!] } };
+      }
+    }
+  }
+
+  /**
+   * The field's value as GitHub has it, e.g. "P1 - High" rather than "P1"
+   */
+  private rawFieldValue(task: Task, concept: 'priority'): string | null {
+    const fieldName = getMappedFieldName(concept);
+    if (!fieldName) return null;
+    const stored = Object.keys(task.fields).find((name) => name.toLowerCase() === fieldName.toLowerCase());
+    return stored ? task.fields[stored] : null;
+  }
+}
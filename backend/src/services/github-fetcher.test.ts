@@ -0,0 +1,19 @@
+import { GitHubFetcherService } from './github-fetcher';
+import { useGitHubFixtures } from '../test/helpers';
+
+describe('GitHubFetcherService.fetchChangedTasks', () => {
+  // The recorded board after PR #5's checks failed; no item or content
+  // was updated since 2026-10-11
+  it('re-fetches open pull requests whose updatedAt did not change', async () => {
+    useGitHubFixtures('board-checks-failed');
+    const fetcher = new GitHubFetcherService('fixture-org', 1);
+    await fetcher.initialize();
+
+    const { tasks, projectItemIds } = await fetcher.fetchChangedTasks(new Date('2026-10-15T00:00:00Z'));
+
+    // The merged PR and the issues are left alone
+    expect(tasks.map((task) => task.id)).toEqual(['PVTI_5']);
+    expect(tasks[0].pullRequest?.checksState).toBe('FAILURE');
+    expect(projectItemIds).toHaveLength(8);
+  });
+});
@@ -2,28 +2,37 @@ import {
   getProjectNodeId,
   getProjectFields,
   fetchAllProjectItems,
+  fetchAllProjectItemSummaries,
+  fetchProjectItemsByIds,
+  completeNestedConnections,
+  fetchItemTimelines,
 } from '../utils/github-graphql';
 import {
   ProjectV2Item,
+  ProjectV2ItemSummary,
   ProjectV2ItemFieldValue,
   GitHubIssue,
   GitHubPullRequest,
+  GitHubDraftIssue,
+  ProjectV2IterationDefinition,
+  ProjectV2Field,
+  TimelineEvent,
 } from '../types/github';
-import { Task } from '../types/task';
+import { Task, PullRequestDetails, LinkedPullRequest, DevelopmentState } from '../types/task';
+import { config } from '../config';
+import { detectGitHubCapabilities } from '../utils/github-capabilities';
+import {
+  getMappedFieldName,
+  validateFieldMapping,
+  normalizePriority,
+  findIterationField,
+  FieldConcept,
+} from '../utils/field-mapping';
 
 /**
- * Extract field value by field name from project item
+ * String form of a project field value, whatever its type
  */
-function getFieldValue(
-  fieldValues: ProjectV2ItemFieldValue[],
-  fieldName: string
-): string | null {
-  const field = fieldValues.find(
-    (fv) => fv.field?.name.toLowerCase() === fieldName.toLowerCase()
-  );
-
-  if (!field) return null;
-
+function fieldValueToString(field: ProjectV2ItemFieldValue): string | null {
   // Handle different field types
   if (field.__typename === 'ProjectV2ItemFieldTextValue') {
     return field.text || null;
@@ -33,11 +42,45 @@ function getFieldValue(
     return field.name || null;
   } else if (field.__typename === 'ProjectV2ItemFieldNumberValue') {
     return field.number?.toString() || null;
+  } else if (field.__typename === 'ProjectV2ItemFieldIterationValue') {
+    return field.title || null;
   }
 
   return null;
 }
 
+/**
+ * Extract field value by field name from project item
+ */
+function getFieldValue(
+  fieldValues: ProjectV2ItemFieldValue[],
+  fieldName: string | null
+): string | null {
+  if (!fieldName) return null;
+
+  const field = fieldValues.find(
+    (fv) => fv.field?.name.toLowerCase() === fieldName.toLowerCase()
+  );
+
+  return field ? fieldValueToString(field) : null;
+}
+
+/**
+ * Every named field value on an item, keyed by field name
+ */
+function getAllFieldValues(fieldValues: ProjectV2ItemFieldValue[]): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const fv of fieldValues) {
+    const value = fieldValueToString(fv);
+    if (fv.field?.name && value !== null) {
+      values[fv.field.name] = value;
+    }
+  }
+
+  return values;
+}
+
 /**
  * Check if content is an Issue
  */
@@ -52,32 +95,156 @@ function isPullRequest(content: any): content is GitHubPullRequest {
   return content.__typename === 'PullRequest';
 }
 
+/**
+ * Check if content is a DraftIssue
+ */
+function isDraftIssue(content: any): content is GitHubDraftIssue {
+  return content.__typename === 'DraftIssue';
+}
+
+/**
+ * Review and CI state of a pull request
+ */
+function toPullRequestDetails(content: GitHubPullRequest): PullRequestDetails {
+  const requestedReviewers = content.reviewRequests.nodes
+    .map((r) => r.requestedReviewer?.login ?? r.requestedReviewer?.combinedSlug ?? null)
+    .filter((name): name is string => name !== null);
+  const firstReview = content.reviews.nodes[0];
+  const headCommit = content.commits?.nodes[0]?.commit;
+
+  return {
+    isDraft: content.isDraft,
+    reviewDecision: content.reviewDecision,
+    requestedReviewers,
+    reviewCount: content.reviews.totalCount,
+    firstReviewAt: firstReview?.submittedAt ? new Date(firstReview.submittedAt) : null,
+    mergeable: content.mergeable,
+    checksState: headCommit?.statusCheckRollup?.state ?? null,
+  };
+}
+
+/**
+ * Where an open issue is in development, from the PRs that close it.
+ * Closed PRs are ignored; a merged PR wins over an open one.
+ */
+function developmentStateOf(linked: LinkedPullRequest[]): DevelopmentState {
+  if (linked.some((pr) => pr.state === 'MERGED')) return 'MERGED';
+  const open = linked.filter((pr) => pr.state === 'OPEN');
+  if (open.some((pr) => !pr.isDraft)) return 'IN_REVIEW';
+  if (open.length > 0) return 'PR_OPEN';
+  return 'NO_PR';
+}
+
+/**
+ * Latest change to either the project item (field values) or its content
+ */
+function lastChangedAt(summary: ProjectV2ItemSummary): Date {
+  const itemUpdated = new Date(summary.updatedAt).getTime();
+  const contentUpdated = summary.content?.updatedAt
+    ? new Date(summary.content.updatedAt).getTime()
+    : 0;
+  return new Date(Math.max(itemUpdated, contentUpdated));
+}
+
+/**
+ * Whether an item must be re-fetched in an incremental sync. Open pull
+ * requests always are: a finished check run or a submitted review changes
+ * their CI and review state without changing their updatedAt.
+ */
+function needsRefresh(summary: ProjectV2ItemSummary, since: Date): boolean {
+  if (summary.content?.__typename === 'PullRequest' && summary.content.state === 'OPEN') {
+    return true;
+  }
+  return lastChangedAt(summary) >= since;
+}
+
+/**
+ * ID of the iteration set on the item's sprint field
+ */
+function getIterationId(
+  fieldValues: ProjectV2ItemFieldValue[],
+  iterationField: string | null
+): string | null {
+  if (!iterationField) return null;
+
+  const field = fieldValues.find(
+    (fv) =>
+      fv.__typename === 'ProjectV2ItemFieldIterationValue' &&
+      fv.field?.name.toLowerCase() === iterationField.toLowerCase()
+  );
+
+  return field?.iterationId || null;
+}
+
 /**
  * Transform ProjectV2Item to internal Task format
  */
-function transformItemToTask(item: ProjectV2Item): Task | null {
+function transformItemToTask(
+  item: ProjectV2Item,
+  project: string,
+  iterationField: string | null
+): Task | null {
   const { content, fieldValues } = item;
 
   if (!content) {
     return null; // Skip items without content
   }
 
-  // Only process Issues and Pull Requests (skip Draft Issues for now)
-  if (!isIssue(content) && !isPullRequest(content)) {
+  if (!isIssue(content) && !isPullRequest(content) && !isDraftIssue(content)) {
     return null;
   }
 
   const fieldValueNodes = fieldValues.nodes;
 
-  // Extract field values
-  const status = getFieldValue(fieldValueNodes, 'Status');
-  const priority = getFieldValue(fieldValueNodes, 'Priority');
-  // Only use First Tech Handoff ETA - no fallbacks to ensure accurate counting
-  const dueDate = getFieldValue(fieldValueNodes, 'First Tech Handoff ETA');
+  // Extract field values using the configured field mapping
+  const status = getFieldValue(fieldValueNodes, getMappedFieldName('status'));
+  const priority = normalizePriority(getFieldValue(fieldValueNodes, getMappedFieldName('priority')));
+  // Only use the mapped due date field - no fallbacks to ensure accurate counting
+  const dueDate = getFieldValue(fieldValueNodes, getMappedFieldName('dueDate'));
+  const estimate = getFieldValue(fieldValueNodes, getMappedFieldName('estimate'));
+  const fields = getAllFieldValues(fieldValueNodes);
+  const iterationId = getIterationId(fieldValueNodes, iterationField);
 
   // Extract assignees
   const assignees = content.assignees.nodes.map((a) => a.login);
 
+  // Drafts have no repository or number, so they are identified by their
+  // DraftIssue node ID and are always open
+  if (isDraftIssue(content)) {
+    return {
+      id: item.id,
+      project,
+      githubId: `draft:${content.id}`,
+      title: content.title,
+      number: 0,
+      type: 'DRAFT_ISSUE',
+      state: 'OPEN',
+      status,
+      repository: null,
+      assignees,
+      priority,
+      createdAt: new Date(content.createdAt),
+      updatedAt: new Date(content.updatedAt),
+      dueDate: dueDate ? new Date(dueDate) : null,
+      estimate: estimate ? parseFloat(estimate) : null,
+      fields,
+      iterationId,
+      labels: [],
+      milestone: null,
+      author: content.creator?.login ?? null,
+      issueType: null,
+      closedAt: null,
+      mergedAt: null,
+      addedToProjectAt: new Date(item.createdAt),
+      parentGithubId: null,
+      subIssuesTotal: 0,
+      subIssuesCompleted: 0,
+      pullRequest: null,
+      linkedPullRequests: [],
+      developmentState: null, // A draft can not have a linked pull request
+    };
+  }
+
   // Determine task type
   const type = isPullRequest(content) ? 'PULL_REQUEST' : 'ISSUE';
 
@@ -87,8 +254,20 @@ function transformItemToTask(item: ProjectV2Item): Task | null {
     state = 'MERGED';
   }
 
+  // Without linked pull request support the development state is unknown
+  const linkedSupported = isIssue(content) && content.closedByPullRequestsReferences !== undefined;
+  const linkedPullRequests: LinkedPullRequest[] = isIssue(content) && content.closedByPullRequestsReferences
+    ? content.closedByPullRequestsReferences.nodes.map((pr) => ({
+        githubId: `${pr.repository.nameWithOwner}#${pr.number}`,
+        state: pr.state,
+        isDraft: pr.isDraft,
+        url: pr.url,
+      }))
+    : [];
+
   const task: Task = {
     id: item.id,
+    project,
     githubId: `${content.repository.nameWithOwner}#${content.number}`,
     title: content.title,
     number: content.number,
@@ -101,12 +280,66 @@ function transformItemToTask(item: ProjectV2Item): Task | null {
     createdAt: new Date(content.createdAt),
     updatedAt: new Date(content.updatedAt),
     dueDate: dueDate ? new Date(dueDate) : null,
-    addedToProjectAt: new Date(content.createdAt), // Approximate
+    estimate: estimate ? parseFloat(estimate) : null,
+    fields,
+    iterationId,
+    labels: content.labels.nodes.map((l) => l.name),
+    milestone: content.milestone?.title ?? null,
+    author: content.author?.login ?? null,
+    issueType: isIssue(content) ? content.issueType?.name ?? null : null,
+    closedAt: content.closedAt ? new Date(content.closedAt) : null,
+    mergedAt: isPullRequest(content) && content.mergedAt ? new Date(content.mergedAt) : null,
+    addedToProjectAt: new Date(item.createdAt),
+    parentGithubId: isIssue(content) && content.parent
+      ? `${content.parent.repository.nameWithOwner}#${content.parent.number}`
+      : null,
+    subIssuesTotal: isIssue(content) ? content.subIssuesSummary?.total ?? 0 : 0,
+    subIssuesCompleted: isIssue(content) ? content.subIssuesSummary?.completed ?? 0 : 0,
+    pullRequest: isPullRequest(content) ? toPullRequestDetails(content) : null,
+    linkedPullRequests,
+    developmentState: linkedSupported && state === 'OPEN' ? developmentStateOf(linkedPullRequests) : null,
   };
 
   return task;
 }
 
+/**
+ * Result of fetching tasks from the project
+ */
+export interface TaskFetchResult {
+  tasks: Task[]; // Every task in a full fetch, only changed tasks in an incremental one
+  projectItemIds: string[]; // IDs of every item currently on the board
+  truncatedItems: number; // Items whose field values or assignees needed follow-up queries
+}
+
+/**
+ * Fetch anything cut off by the nested page sizes and report it, so a
+ * truncated item never silently loses field values or assignees
+ */
+async function completeItems(items: ProjectV2Item[]): Promise<number> {
+  const counts = await completeNestedConnections(items);
+
+  if (counts.fieldValues > 0) {
+    console.warn(`⚠ ${counts.fieldValues} items had more field values than fit in one page, fetched the rest`);
+  }
+  if (counts.assignees > 0) {
+    console.warn(`⚠ ${counts.assignees} items had more assignees than fit in one page, fetched the rest`);
+  }
+  if (counts.labels > 0) {
+    console.warn(`⚠ ${counts.labels} items had more labels than fit in one page, fetched the rest`);
+  }
+
+  return counts.items;
+}
+
+/**
+ * Sprint definitions of the project's iteration field
+ */
+export interface IterationFetchResult {
+  fieldName: string | null; // Null when the project has no iteration field
+  iterations: Array<ProjectV2IterationDefinition & { completed: boolean }>;
+}
+
 /**
  * Main service to fetch and transform GitHub project data
  */
@@ -114,6 +347,9 @@ export class GitHubFetcherService {
   private org: string;
   private projectNumber: number;
   private projectId: string | null = null;
+  private projectTitle: string | null = null;
+  private iterationField: string | null = null;
+  private fields: ProjectV2Field[] = [];
 
   constructor(org: string, projectNumber: number) {
     this.org = org;
@@ -121,31 +357,184 @@ export class GitHubFetcherService {
   }
 
   /**
-   * Initialize the service by fetching project ID
+   * Project identifier used across the API, e.g. "risa-labs-inc/3"
+   */
+  get slug(): string {
+    return `${this.org}/${this.projectNumber}`;
+  }
+
+  getOrg(): string {
+    return this.org;
+  }
+
+  getProjectNumber(): number {
+    return this.projectNumber;
+  }
+
+  getProjectId(): string | null {
+    return this.projectId;
+  }
+
+  getProjectTitle(): string | null {
+    return this.projectTitle;
+  }
+
+  /**
+   * Initialize the service by checking which API features the server
+   * supports, fetching the project ID and checking the configured field
+   * mapping against the project's fields
    */
   async initialize(): Promise<void> {
-    this.projectId = await getProjectNodeId(this.org, this.projectNumber);
-    console.log(`Initialized GitHubFetcherService with project ID: ${this.projectId}`);
+    console.log(`Authenticating to GitHub using ${config.github.authType === 'app' ? 'GitHub App installation' : 'personal access token'}`);
+    await detectGitHubCapabilities();
+    const project = await getProjectNodeId(this.org, this.projectNumber);
+    this.projectId = project.id;
+    this.projectTitle = project.title;
+
+    const fields = await getProjectFields(project.id);
+    validateFieldMapping(fields.fields.nodes, this.slug);
+    this.fields = fields.fields.nodes;
+    this.iterationField = findIterationField(fields.fields.nodes)?.name ?? null;
+    console.log(`Initialized GitHubFetcherService for ${this.slug} with project ID: ${this.projectId}`);
+  }
+
+  /**
+   * The project field mapped to a concept, with its ID and options
+   */
+  getMappedField(concept: FieldConcept): ProjectV2Field | null {
+    const name = getMappedFieldName(concept);
+    if (!name) return null;
+    return this.fields.find((f) => f.name?.toLowerCase() === name.toLowerCase()) ?? null;
   }
 
   /**
    * Fetch all tasks from the GitHub project
    */
-  async fetchTasks(): Promise<Task[]> {
+  async fetchTasks(): Promise<TaskFetchResult> {
     if (!this.projectId) {
       throw new Error('Service not initialized. Call initialize() first.');
     }
 
     console.log('Fetching project items...');
     const items = await fetchAllProjectItems(this.projectId);
+    const truncatedItems = await completeItems(items);
 
     console.log('Transforming items to tasks...');
     const tasks = items
-      .map(transformItemToTask)
+      .map((item) => transformItemToTask(item, this.slug, this.iterationField))
       .filter((task): task is Task => task !== null);
 
     console.log(`Successfully transformed ${tasks.length} tasks`);
-    return tasks;
+    return {
+      tasks,
+      projectItemIds: items.map((item) => item.id),
+      truncatedItems,
+    };
+  }
+
+  /**
+   * Fetch only the tasks whose item or content changed at or after `since`,
+   * plus every open pull request. Every item is still listed (cheaply) so
+   * callers know what is on the board.
+   */
+  async fetchChangedTasks(since: Date): Promise<TaskFetchResult> {
+    if (!this.projectId) {
+      throw new Error('Service not initialized. Call initialize() first.');
+    }
+
+    console.log(`Listing project items changed since ${since.toISOString()}...`);
+    const summaries = await fetchAllProjectItemSummaries(this.projectId);
+    const changedIds = summaries
+      .filter((summary) => needsRefresh(summary, since))
+      .map((summary) => summary.id);
+
+    console.log(`${changedIds.length} of ${summaries.length} items changed or are open pull requests`);
+    const items = changedIds.length > 0 ? await fetchProjectItemsByIds(changedIds) : [];
+    const truncatedItems = await completeItems(items);
+
+    const tasks = items
+      .map((item) => transformItemToTask(item, this.slug, this.iterationField))
+      .filter((task): task is Task => task !== null);
+
+    console.log(`Successfully transformed ${tasks.length} changed tasks`);
+    return {
+      tasks,
+      projectItemIds: summaries.map((summary) => summary.id),
+      truncatedItems,
+    };
+  }
+
+  /**
+   * Fetch specific project items, e.g. the ones named in a webhook delivery.
+   * `projectItemIds` holds only the items that still exist.
+   */
+  async fetchTasksByItemIds(itemIds: string[]): Promise<TaskFetchResult> {
+    if (!this.projectId) {
+      throw new Error('Service not initialized. Call initialize() first.');
+    }
+
+    const items = await fetchProjectItemsByIds(itemIds);
+    const truncatedItems = await completeItems(items);
+
+    const tasks = items
+      .map((item) => transformItemToTask(item, this.slug, this.iterationField))
+      .filter((task): task is Task => task !== null);
+
+    return {
+      tasks,
+      projectItemIds: items.map((item) => item.id),
+      truncatedItems,
+    };
+  }
+
+  /**
+   * Fetch the timeline events of project items, keyed by project item ID.
+   * Project events (added, removed, status changes) on other boards are
+   * dropped; drafts get an empty list.
+   */
+  async fetchTimelines(itemIds: string[]): Promise<Map<string, TimelineEvent[]>> {
+    if (!this.projectId) {
+      throw new Error('Service not initialized. Call initialize() first.');
+    }
+
+    const timelines = await fetchItemTimelines(itemIds);
+    const events = new Map<string, TimelineEvent[]>();
+
+    for (const item of timelines) {
+      const nodes = item.content?.timelineItems?.nodes ?? [];
+      events.set(
+        item.id,
+        nodes.filter((event) => event.project === undefined || event.project?.id === this.projectId)
+      );
+    }
+
+    return events;
+  }
+
+  /**
+   * Fetch the sprint definitions (current, upcoming and completed) of the
+   * project's iteration field
+   */
+  async fetchIterations(): Promise<IterationFetchResult> {
+    if (!this.projectId) {
+      throw new Error('Service not initialized. Call initialize() first.');
+    }
+
+    const fields = await getProjectFields(this.projectId);
+    const field = findIterationField(fields.fields.nodes);
+    this.iterationField = field?.name ?? null;
+
+    if (!field?.configuration) {
+      return { fieldName: this.iterationField, iterations: [] };
+    }
+
+    return {
+      fieldName: field.name,
+      iterations: [
+        ...field.configuration.iterations.map((i) => ({ ...i, completed: false })),
+        ...field.configuration.completedIterations.map((i) => ({ ...i, completed: true })),
+      ],
+    };
   }
 
   /**
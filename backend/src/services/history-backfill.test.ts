@@ -0,0 +1,94 @@
+import { GitHubFetcherService } from './github-fetcher';
+import { parseDay, reconstructTask } from './history-backfill';
+import { Task } from '../types/task';
+import { TimelineEvent } from '../types/github';
+import { useGitHubFixtures } from '../test/helpers';
+
+// Well after every event on the fixture board
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('reconstructTask', () => {
+  const tasks = new Map<string, Task>();
+  let timelines: Map<string, TimelineEvent[]>;
+
+  // Tasks and timelines as the fetcher reads them from the recorded board
+  beforeAll(async () => {
+    useGitHubFixtures('board');
+    const fetcher = new GitHubFetcherService('fixture-org', 1);
+    await fetcher.initialize();
+
+    const { tasks: fetched } = await fetcher.fetchTasks();
+    fetched.forEach((task) => tasks.set(task.id, task));
+    timelines = await fetcher.fetchTimelines(['PVTI_1', 'PVTI_6', 'PVTI_7']);
+  });
+
+  function reconstruct(itemId: string, start: string, end: string, now: Date = NOW) {
+    return reconstructTask(tasks.get(itemId)!, timelines.get(itemId)!, parseDay(start), parseDay(end), now);
+  }
+
+  it('drops events from other boards', () => {
+    const statuses = timelines.get('PVTI_1')!
+      .filter((event) => event.__typename === 'ProjectV2ItemStatusChangedEvent')
+      .map((event) => event.status);
+
+    expect(statuses).toEqual(['In Progress']);
+  });
+
+  it('replays status changes, closing and reopening of an issue', () => {
+    const snapshots = reconstruct('PVTI_1', '2026-09-01', '2026-09-06');
+
+    // Not on the board until it was added on 2026-09-02
+    expect(snapshots.map((s) => [s.date, s.state, s.status])).toEqual([
+      ['2026-09-02', 'OPEN', 'Todo'],
+      ['2026-09-03', 'OPEN', 'In Progress'],
+      ['2026-09-04', 'CLOSED', 'In Progress'],
+      ['2026-09-05', 'OPEN', 'In Progress'],
+      ['2026-09-06', 'OPEN', 'In Progress'],
+    ]);
+  });
+
+  it('marks an open task overdue from the end of its due date', () => {
+    const snapshots = reconstruct('PVTI_1', '2026-09-30', '2026-10-01');
+
+    expect(snapshots.map((s) => [s.date, s.isOverdue])).toEqual([
+      ['2026-09-30', false],
+      ['2026-10-01', true],
+    ]);
+  });
+
+  it('leaves out the days a pull request was off the board and keeps it merged once merged', () => {
+    const snapshots = reconstruct('PVTI_6', '2026-09-19', '2026-10-06');
+
+    expect(snapshots.map((s) => s.date)).not.toContain('2026-09-19');
+    expect(snapshots.map((s) => s.date)).not.toContain('2026-09-24');
+    expect(snapshots.map((s) => s.date)).not.toContain('2026-09-25');
+    expect(snapshots.find((s) => s.date === '2026-10-04')?.state).toBe('OPEN');
+    expect(snapshots.filter((s) => s.state === 'MERGED').map((s) => s.date)).toEqual([
+      '2026-10-05',
+      '2026-10-06',
+    ]);
+    expect(snapshots).toHaveLength(4 + 11);
+  });
+
+  it('keeps a draft with no timeline on the board from its creation', () => {
+    expect(timelines.get('PVTI_7')).toEqual([]);
+
+    const snapshots = reconstruct('PVTI_7', '2026-09-30', '2026-10-02');
+
+    expect(snapshots.map((s) => [s.date, s.state, s.status])).toEqual([
+      ['2026-10-01', 'OPEN', 'Todo'],
+      ['2026-10-02', 'OPEN', 'Todo'],
+    ]);
+  });
+
+  it('stops at the current time', () => {
+    const snapshots = reconstruct('PVTI_1', '2026-09-02', '2026-09-10', new Date('2026-09-04T06:00:00Z'));
+
+    // Closed later on 2026-09-04, so still open so far that day
+    expect(snapshots.map((s) => [s.date, s.state])).toEqual([
+      ['2026-09-02', 'OPEN'],
+      ['2026-09-03', 'OPEN'],
+      ['2026-09-04', 'OPEN'],
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import { GitHubFetcherService } from './github-fetcher';
+import { TaskRepository } from '../database/task-repository';
+import { Task, ReconstructedSnapshot } from '../types/task';
+import { TimelineEvent } from '../types/github';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BackfillResult {
+  start: string;
+  end: string;
+  days: number;
+  tasks: number;
+  snapshots: number;
+}
+
+/**
+ * Parse a YYYY-MM-DD date as midnight UTC
+ */
+export function parseDay(value: string): Date {
+  const match = value.match(/^\d{4}-\d{2}-\d{2}$/);
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!match || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}", expected YYYY-MM-DD`);
+  }
+  return date;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Replay a task's timeline and report its state at the end of each day it
+ * was on the board. Events before `start` only set the initial state.
+ * Without added/removed events the task is taken to have been on the board
+ * since it was added to the project; without status-change events it keeps
+ * its current status throughout.
+ */
+export function reconstructTask(
+  task: Task,
+  events: TimelineEvent[],
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+): ReconstructedSnapshot[] {
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  const membershipEvents = sorted.filter(
+    (e) => e.__typename === 'AddedToProjectV2Event' || e.__typename === 'RemovedFromProjectV2Event'
+  );
+  const firstStatusChange = sorted.find((e) => e.__typename === 'ProjectV2ItemStatusChangedEvent');
+
+  // Initial values, before the first event
+  let state: ReconstructedSnapshot['state'] = 'OPEN';
+  let status = firstStatusChange ? firstStatusChange.previousStatus || null : task.status;
+  let onBoard = membershipEvents.length > 0
+    ? membershipEvents[0].__typename === 'RemovedFromProjectV2Event'
+    : false;
+  const addedAt = (task.addedToProjectAt ?? task.createdAt).getTime();
+
+  const snapshots: ReconstructedSnapshot[] = [];
+  let next = 0;
+
+  // Days still in the future have no state yet
+  for (let day = start.getTime(); day <= end.getTime() && day <= now.getTime(); day += DAY_MS) {
+    const at = Math.min(day + DAY_MS, now.getTime());
+
+    while (next < sorted.length && new Date(sorted[next].createdAt).getTime() < at) {
+      const event = sorted[next++];
+      switch (event.__typename) {
+        case 'ClosedEvent':
+          // A merged PR is also closed; merged wins
+          if (state !== 'MERGED') state = 'CLOSED';
+          break;
+        case 'ReopenedEvent':
+          state = 'OPEN';
+          break;
+        case 'MergedEvent':
+          state = 'MERGED';
+          break;
+        case 'AddedToProjectV2Event':
+          onBoard = true;
+          break;
+        case 'RemovedFromProjectV2Event':
+          onBoard = false;
+          break;
+        case 'ProjectV2ItemStatusChangedEvent':
+          status = event.status || null;
+          break;
+      }
+    }
+
+    const isOnBoard = membershipEvents.length > 0 ? onBoard : addedAt < at;
+    if (!isOnBoard || task.createdAt.getTime() >= at) {
+      continue;
+    }
+
+    snapshots.push({
+      projectItemId: task.id,
+      date: formatDay(new Date(day)),
+      state,
+      status,
+      isOverdue: state === 'OPEN' && task.dueDate !== null && task.dueDate.getTime() < at,
+    });
+  }
+
+  return snapshots;
+}
+
+/**
+ * Rebuilds per-day task snapshots and daily statistics from the issue and
+ * PR timelines, replacing whatever was recorded for the date range
+ */
+export class HistoryBackfillService {
+  private taskRepository: TaskRepository;
+
+  constructor() {
+    this.taskRepository = new TaskRepository();
+  }
+
+  async backfillProject(
+    projectId: number,
+    fetcher: GitHubFetcherService,
+    start: Date,
+    end: Date
+  ): Promise<BackfillResult> {
+    if (start > end) {
+      throw new Error('Backfill start date must not be after the end date');
+    }
+
+    const tasks = await this.taskRepository.getTasksWithAssignees(projectId);
+    console.log(`Reading timelines for ${tasks.length} tasks...`);
+    const timelines = await fetcher.fetchTimelines(tasks.map((task) => task.id));
+
+    const snapshots = tasks.flatMap((task) =>
+      reconstructTask(task, timelines.get(task.id) ?? [], start, end)
+    );
+
+    const startDay = formatDay(start);
+    const endDay = formatDay(end);
+    await this.taskRepository.replaceSnapshots(projectId, startDay, endDay, snapshots);
+
+    const days = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+    console.log(`✓ Rebuilt ${snapshots.length} snapshots over ${days} days for ${fetcher.slug}`);
+
+    return {
+      start: startDay,
+      end: endDay,
+      days,
+      tasks: tasks.length,
+      snapshots: snapshots.length,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { PollingService } from './polling-service';
+import { TaskRepository } from '../database/task-repository';
+import { IterationRepository } from '../database/iteration-repository';
+import { closePool, query } from '../database/connection';
+import { describeWithDatabase, resetDatabase, useGitHubFixtures } from '../test/helpers';
+
+// Each test polls the recorded board as it was at a later point, so they
+// run in order against the same database
+describeWithDatabase('PollingService.poll', () => {
+  const taskRepository = new TaskRepository();
+  let service: PollingService;
+
+  async function lastRun() {
+    const result = await query(
+      `SELECT status, mode, tasks_fetched, tasks_removed, removals_withheld
+       FROM sync_runs ORDER BY id DESC LIMIT 1`
+    );
+    return result.rows[0];
+  }
+
+  async function itemsOnBoard(): Promise<string[]> {
+    return (await taskRepository.getAllTasks()).map((task) => task.id).sort();
+  }
+
+  beforeAll(async () => {
+    await resetDatabase();
+
+    // Tasks stored before multi-project support: one still on the board,
+    // one whose item is gone
+    await query(
+      `INSERT INTO tasks (github_id, project_item_id, title, number, type, state, created_at, updated_at)
+       VALUES ('acme/web#4', 'PVTI_4', 'Dark mode', 4, 'ISSUE', 'OPEN', NOW(), NOW()),
+              ('acme/web#3', 'PVTI_gone', 'Old task', 3, 'ISSUE', 'OPEN', NOW(), NOW())`
+    );
+
+    useGitHubFixtures('board');
+    service = new PollingService();
+    await service.initialize();
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  it('stores the recorded board, claiming tasks stored before multi-project support', async () => {
+    await service.poll('full');
+
+    expect(service.getStatus().lastRunStatus).toBe('success');
+    expect(await lastRun()).toEqual({
+      status: 'success',
+      mode: 'full',
+      tasks_fetched: 8,
+      tasks_removed: 0,
+      removals_withheld: null,
+    });
+    expect(await itemsOnBoard()).toEqual([
+      'PVTI_1', 'PVTI_2', 'PVTI_3', 'PVTI_4', 'PVTI_5', 'PVTI_6', 'PVTI_7', 'PVTI_8',
+    ]);
+    expect((await taskRepository.getRemovedTasks()).map((task) => task.id)).toEqual(['PVTI_gone']);
+
+    const stored = await taskRepository.getTasksWithAssignees();
+    const issue = stored.find((task) => task.id === 'PVTI_1')!;
+    const pullRequest = stored.find((task) => task.id === 'PVTI_5')!;
+    const draft = stored.find((task) => task.id === 'PVTI_7')!;
+    expect(issue.assignees.sort()).toEqual(['alice', 'bob']);
+    expect(issue.iterationId).toBe('it42');
+    expect(issue.fields).toMatchObject({ Status: 'In Progress', Priority: 'P1' });
+    expect(issue.developmentState).toBe('IN_REVIEW');
+    expect(pullRequest.pullRequest).toMatchObject({ requestedReviewers: ['carol'], checksState: 'SUCCESS' });
+    expect(draft.githubId).toBe('draft:DI_7');
+
+    const iterations = await new IterationRepository().getIterations();
+    expect(iterations.map((iteration) => iteration.title).sort()).toEqual(['Sprint 41', 'Sprint 42']);
+  });
+
+  it('marks an item taken off the board as removed', async () => {
+    useGitHubFixtures('board-item-removed');
+    await service.poll('full');
+
+    expect(await lastRun()).toMatchObject({ status: 'success', tasks_fetched: 7, tasks_removed: 1 });
+    expect(await itemsOnBoard()).not.toContain('PVTI_8');
+    expect((await taskRepository.getRemovedTasks()).map((task) => task.id).sort()).toEqual([
+      'PVTI_8',
+      'PVTI_gone',
+    ]);
+  });
+
+  it('closes the assignments of a task left with no assignees', async () => {
+    const assignments = await query(
+      `SELECT ta.assignee, ta.unassigned_at IS NOT NULL AS closed
+       FROM task_assignments ta JOIN tasks t ON t.id = ta.task_id
+       WHERE t.project_item_id = 'PVTI_1' ORDER BY ta.assignee`
+    );
+    expect(assignments.rows).toEqual([
+      { assignee: 'alice', closed: true },
+      { assignee: 'bob', closed: true },
+    ]);
+
+    const events = await query(
+      `SELECT e.old_value, e.new_value, e.source FROM task_events e JOIN tasks t ON t.id = e.task_id
+       WHERE t.project_item_id = 'PVTI_1' AND e.event_type = 'status_changed'`
+    );
+    expect(events.rows).toEqual([{ old_value: 'In Progress', new_value: 'In Review', source: 'sync' }]);
+  });
+
+  it('withholds a removal of most of the board', async () => {
+    useGitHubFixtures('board-mostly-missing');
+    await service.poll('full');
+
+    // 6 of 7 tasks missing is over both the always-allowed count and half the board
+    expect(service.getStatus().lastRunStatus).toBe('success');
+    expect(await lastRun()).toMatchObject({
+      status: 'success',
+      tasks_fetched: 1,
+      tasks_removed: null,
+      removals_withheld: 6,
+    });
+    expect(await itemsOnBoard()).toEqual([
+      'PVTI_1', 'PVTI_2', 'PVTI_3', 'PVTI_4', 'PVTI_5', 'PVTI_6', 'PVTI_7',
+    ]);
+  });
+});
@@ -2,108 +2,186 @@ import cron from 'node-cron';
 import { GitHubFetcherService } from './github-fetcher';
 import { TaskProcessorService } from './task-processor';
 import { TaskRepository } from '../database/task-repository';
+import { SyncRunRepository } from '../database/sync-run-repository';
+import { ProjectRepository } from '../database/project-repository';
+import { IterationRepository } from '../database/iteration-repository';
+import { withTransaction } from '../database/connection';
+import { rateLimitTracker } from '../utils/rate-limit';
 import { config } from '../config';
+import { SyncMode } from '../types/task';
+
+// Small boards may lose this many tasks in one sync whatever the fraction
+const ALWAYS_ALLOWED_REMOVALS = 5;
+
+export interface MonitoredProject {
+  fetcher: GitHubFetcherService;
+  projectId: number | null; // Database ID, set once the project is initialized
+}
 
 /**
  * Service to handle scheduled polling of GitHub data
  */
 export class PollingService {
   private cronJob: cron.ScheduledTask | null = null;
+  private fullSyncCronJob: cron.ScheduledTask | null = null;
   private isRunning = false;
   private lastRunTime: Date | null = null;
   private lastRunStatus: 'success' | 'error' | null = null;
   private lastRunError: string | null = null;
+  private lastRunPointsUsed: number | null = null;
+  private lastRunMode: SyncMode | null = null;
+  private fullSyncPending = false;
 
-  private githubFetcher: GitHubFetcherService;
+  private projects: MonitoredProject[];
   private taskProcessor: TaskProcessorService;
   private taskRepository: TaskRepository;
+  private projectRepository: ProjectRepository;
+  private syncRunRepository: SyncRunRepository;
+  private iterationRepository: IterationRepository;
 
   constructor() {
-    this.githubFetcher = new GitHubFetcherService(
-      config.github.org,
-      config.github.projectNumber
-    );
+    this.projects = config.github.projects.map((project) => ({
+      fetcher: new GitHubFetcherService(project.org, project.number),
+      projectId: null,
+    }));
     this.taskProcessor = new TaskProcessorService();
     this.taskRepository = new TaskRepository();
+    this.projectRepository = new ProjectRepository();
+    this.syncRunRepository = new SyncRunRepository();
+    this.iterationRepository = new IterationRepository();
   }
 
   /**
-   * Initialize the service
+   * Initialize the service. A project that fails to initialize is retried
+   * on the next polling cycle instead of blocking the others.
    */
   async initialize(): Promise<void> {
-    await this.githubFetcher.initialize();
-    console.log('✓ Polling service initialized');
+    let initialized = 0;
+
+    for (const project of this.projects) {
+      try {
+        await this.initializeProject(project);
+        initialized++;
+      } catch (error) {
+        console.error(`⚠ Failed to initialize project ${project.fetcher.slug}:`, error);
+      }
+    }
+
+    if (initialized === 0) {
+      throw new Error('No GitHub projects could be initialized');
+    }
+
+    // Statistics recorded before multi-project support belong to the
+    // project the deployment was originally configured with
+    const [primary] = this.projects;
+    if (primary.projectId !== null) {
+      await this.taskRepository.claimDailyStatistics(primary.projectId);
+    }
+
+    console.log(`✓ Polling service initialized (${initialized}/${this.projects.length} projects)`);
+  }
+
+  /**
+   * Resolve a project on GitHub and register it in the database
+   */
+  private async initializeProject(project: MonitoredProject): Promise<void> {
+    const { fetcher } = project;
+    await fetcher.initialize();
+
+    const stored = await this.projectRepository.upsertProject(
+      fetcher.getOrg(),
+      fetcher.getProjectNumber(),
+      fetcher.getProjectId(),
+      fetcher.getProjectTitle()
+    );
+    project.projectId = stored.id;
+  }
+
+  /**
+   * Get the fetcher for a monitored project, by "org/number" slug
+   */
+  getFetcher(slug: string): GitHubFetcherService | null {
+    const project = this.projects.find((p) => p.fetcher.slug === slug);
+    return project ? project.fetcher : null;
+  }
+
+  /**
+   * Find an initialized monitored project by its GitHub node ID
+   */
+  findProjectByNodeId(nodeId: string): MonitoredProject | null {
+    return this.projects.find(
+      (p) => p.projectId !== null && p.fetcher.getProjectId() === nodeId
+    ) ?? null;
   }
 
   /**
-   * Run a single polling cycle
+   * Find an initialized monitored project by its database ID
    */
-  async poll(): Promise<void> {
+  findProjectById(projectId: number): MonitoredProject | null {
+    return this.projects.find((p) => p.projectId === projectId) ?? null;
+  }
+
+  /**
+   * Slugs of the monitored projects, in configuration order
+   */
+  getProjectSlugs(): string[] {
+    return this.projects.map((p) => p.fetcher.slug);
+  }
+
+  /**
+   * Run a single polling cycle over every monitored project. Incremental
+   * cycles only re-process items changed since each project's last
+   * successful high-water mark; a project with no previous run gets a full
+   * sync instead. One project failing does not stop the others.
+   */
+  async poll(mode: SyncMode = config.polling.incremental ? 'incremental' : 'full'): Promise<void> {
     if (this.isRunning) {
-      console.log('⚠ Polling already in progress, skipping this cycle');
+      if (mode === 'full') {
+        console.log('⚠ Polling already in progress, full sync will run when it finishes');
+        this.fullSyncPending = true;
+      } else {
+        console.log('⚠ Polling already in progress, skipping this cycle');
+      }
       return;
     }
 
     this.isRunning = true;
     this.lastRunTime = new Date();
+    this.lastRunMode = mode;
     console.log(`\n========================================`);
-    console.log(`Starting polling cycle at ${this.lastRunTime.toISOString()}`);
+    console.log(`Starting ${mode} polling cycle at ${this.lastRunTime.toISOString()}`);
     console.log(`========================================\n`);
 
+    const pointsAtStart = rateLimitTracker.getPointsUsed();
+    const failures: string[] = [];
+    const projectItemIds: string[] = [];
+
     try {
-      // Fetch tasks from GitHub
-      console.log('1. Fetching tasks from GitHub...');
-      const tasks = await this.githubFetcher.fetchTasks();
-      console.log(`   ✓ Fetched ${tasks.length} tasks`);
-
-      // Calculate statistics
-      console.log('\n2. Calculating statistics...');
-      const stats = this.taskProcessor.calculateStats(tasks);
-      console.log(`   ✓ Total: ${stats.total}`);
-      console.log(`   ✓ Open: ${stats.open}`);
-      console.log(`   ✓ Closed: ${stats.closed}`);
-      console.log(`   ✓ Overdue: ${stats.overdue}`);
-
-      // Save to database
-      console.log('\n3. Saving to database...');
-      await this.taskRepository.upsertTasks(tasks);
-
-      // Clean up stale tasks (not in current project)
-      console.log('\n4. Cleaning up stale tasks...');
-      const projectItemIds = tasks.map((task) => task.id);
-      const deletedCount = await this.taskRepository.deleteTasksNotInList(projectItemIds);
-      if (deletedCount === 0) {
-        console.log('   ✓ No stale tasks to clean up');
+      for (const project of this.projects) {
+        try {
+          projectItemIds.push(...(await this.syncProject(project, mode)));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          failures.push(`${project.fetcher.slug}: ${message}`);
+          console.error(`✗ Sync failed for ${project.fetcher.slug}:`, error);
+        }
       }
 
-      // Sync task assignments
-      console.log('\n5. Syncing task assignments...');
-      for (const task of tasks) {
-        if (task.assignees.length > 0) {
-          await this.taskRepository.syncTaskAssignments(
-            task.githubId,
-            task.assignees
-          );
-        }
+      // Tasks stored before multi-project support that no board listed are
+      // not on any monitored board; only known once every project has
+      // claimed its own
+      if (failures.length === 0) {
+        console.log('\nMarking tasks not on any monitored board as removed...');
+        await this.removeMissingTasks(null, projectItemIds);
       }
-      console.log('   ✓ Assignments synced');
 
       // Create snapshot
-      console.log('\n6. Creating snapshot...');
+      console.log('\nCreating snapshot...');
       await this.taskRepository.createSnapshot();
 
-      // Save daily statistics
-      console.log('\n7. Saving daily statistics...');
-      await this.taskRepository.saveDailyStatistics(
-        stats.total,
-        stats.open,
-        stats.closed,
-        stats.overdue
-      );
-
       // Backfill historical data if snapshots exist (only on first run)
       if (this.lastRunTime === null) {
-        console.log('\n8. Checking for historical data to backfill...');
+        console.log('\nChecking for historical data to backfill...');
         const hasHistoricalData = await this.taskRepository.hasHistoricalSnapshots();
         if (hasHistoricalData) {
           console.log('   ✓ Historical snapshots found, backfilling statistics...');
@@ -113,6 +191,10 @@ export class PollingService {
         }
       }
 
+      if (failures.length > 0) {
+        throw new Error(`Sync failed for ${failures.length} project(s): ${failures.join('; ')}`);
+      }
+
       this.lastRunStatus = 'success';
       this.lastRunError = null;
 
@@ -127,10 +209,174 @@ export class PollingService {
       console.error(`✗ Polling cycle failed:`, error);
       console.error(`========================================\n`);
     } finally {
+      this.lastRunPointsUsed = rateLimitTracker.getPointsUsed() - pointsAtStart;
+      console.log(
+        `GitHub rate limit: ${this.lastRunPointsUsed} points used this cycle, ${rateLimitTracker.getRemaining() ?? 'unknown'} remaining`
+      );
+
       this.isRunning = false;
+
+      if (this.fullSyncPending) {
+        this.fullSyncPending = false;
+        this.poll('full').catch((error) => {
+          console.error('Error in deferred full sync:', error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Sync one project and record the run in sync_runs. Returns the IDs of
+   * the items on its board.
+   */
+  private async syncProject(project: MonitoredProject, mode: SyncMode): Promise<string[]> {
+    const { fetcher } = project;
+    console.log(`\n---------- ${fetcher.slug} ----------`);
+
+    if (project.projectId === null) {
+      await this.initializeProject(project);
+    }
+    const projectId = project.projectId!;
+
+    const pointsAtStart = rateLimitTracker.getPointsUsed();
+    let runId: number | null = null;
+    let tasksFetched: number | null = null;
+    let highWaterMark: Date | null = null;
+    let truncatedItems: number | null = null;
+    let tasksRemoved: number | null = null;
+    let removalsWithheld: number | null = null;
+    let runError: string | null = null;
+    let runRecorded = false;
+
+    const finishRun = () =>
+      this.syncRunRepository.finishRun(runId!, {
+        status: runError === null ? 'success' : 'error',
+        error: runError,
+        tasksFetched,
+        pointsUsed: rateLimitTracker.getPointsUsed() - pointsAtStart,
+        pointsRemaining: rateLimitTracker.getRemaining(),
+        highWaterMark: runError === null ? highWaterMark : null,
+        truncatedItems,
+        tasksRemoved,
+        removalsWithheld,
+      });
+
+    try {
+      const since = mode === 'incremental'
+        ? await this.syncRunRepository.getLastHighWaterMark(projectId)
+        : null;
+      if (mode === 'incremental' && !since) {
+        console.log('No previous successful sync found, running a full sync');
+        mode = 'full';
+      }
+
+      runId = await this.syncRunRepository.startRun(projectId, mode);
+
+      // Fetch tasks and sprint definitions from GitHub
+      console.log(`1. Fetching tasks from GitHub (${mode} sync)...`);
+      const fetchStartedAt = Date.now();
+      const fetched = mode === 'incremental'
+        ? await fetcher.fetchChangedTasks(since!)
+        : await fetcher.fetchTasks();
+      const { tasks, projectItemIds } = fetched;
+      tasksFetched = tasks.length;
+      truncatedItems = fetched.truncatedItems;
+      // Overlap with the next run so changes made mid-fetch are not missed
+      highWaterMark = new Date(fetchStartedAt - config.polling.incrementalOverlapMs);
+      console.log(`   ✓ Fetched ${tasks.length} tasks (${projectItemIds.length} items on the board)`);
+      const iterations = await fetcher.fetchIterations();
+
+      // Write the whole sync in one transaction, so a failure part way
+      // through leaves the project as the last successful sync stored it
+      await withTransaction(async () => {
+        console.log('\n2. Saving to database...');
+        await this.taskRepository.claimTasks(projectId, projectItemIds);
+        await this.taskRepository.upsertTasks(projectId, tasks, 'sync', runId);
+
+        // Mark tasks no longer on the board as removed. Both modes list every
+        // item on the board, so this is safe for incremental syncs too.
+        console.log('\n3. Marking tasks removed from the board...');
+        ({ tasksRemoved, removalsWithheld } = await this.removeMissingTasks(projectId, projectItemIds));
+
+        // Store sprint definitions and record sprint changes
+        console.log('\n4. Syncing sprints...');
+        await this.iterationRepository.saveIterations(projectId, iterations);
+        await this.iterationRepository.syncTaskIterations(projectId);
+        console.log(
+          iterations.fieldName
+            ? `   ✓ ${iterations.iterations.length} sprints in "${iterations.fieldName}"`
+            : '   ✓ No iteration field on this project'
+        );
+
+        // Calculate statistics from the stored tasks, since an incremental
+        // fetch only returns the ones that changed
+        console.log('\n5. Calculating statistics...');
+        const allTasks = await this.taskRepository.getTasksWithAssignees(projectId);
+        const stats = this.taskProcessor.calculateStats(allTasks);
+        console.log(`   ✓ Total: ${stats.total}`);
+        console.log(`   ✓ Open: ${stats.open}`);
+        console.log(`   ✓ Closed: ${stats.closed}`);
+        console.log(`   ✓ Overdue: ${stats.overdue}`);
+
+        // Save daily statistics
+        console.log('\n6. Saving daily statistics...');
+        await this.taskRepository.saveDailyStatistics(
+          projectId,
+          stats.total,
+          stats.open,
+          stats.closed,
+          stats.overdue
+        );
+
+        await finishRun();
+      });
+      runRecorded = true;
+
+      return projectItemIds;
+    } catch (error) {
+      runError = error instanceof Error ? error.message : String(error);
+      // Nothing from the failed transaction was stored
+      tasksRemoved = null;
+      removalsWithheld = null;
+      throw error;
+    } finally {
+      if (runId !== null && !runRecorded) {
+        await finishRun().catch((error) => {
+          console.error('Failed to record sync run:', error);
+        });
+      }
     }
   }
 
+  /**
+   * Mark the tasks of a project (or, without one, the tasks no project
+   * claimed) that are not among the listed items as removed. A partial or
+   * broken listing must not take most of the board with it, so a removal
+   * over the configured fraction is withheld instead.
+   */
+  private async removeMissingTasks(
+    projectId: number | null,
+    projectItemIds: string[]
+  ): Promise<{ tasksRemoved: number | null; removalsWithheld: number | null }> {
+    const { onBoard, missing } = await this.taskRepository.countTasksNotInList(projectId, projectItemIds);
+    if (missing === 0) {
+      console.log('   ✓ No tasks left the board');
+      return { tasksRemoved: 0, removalsWithheld: null };
+    }
+
+    if (missing > ALWAYS_ALLOWED_REMOVALS && missing > onBoard * config.polling.removalMaxFraction) {
+      console.warn(
+        `   ⚠ ${missing} of ${onBoard} tasks are missing from the fetch, more than ` +
+          `${Math.round(config.polling.removalMaxFraction * 100)}% of the board; keeping them. ` +
+          'If they really left the board, raise POLLING_REMOVAL_MAX_FRACTION for one sync.'
+      );
+      return { tasksRemoved: null, removalsWithheld: missing };
+    }
+
+    const tasksRemoved = await this.taskRepository.markTasksNotInListRemoved(projectId, projectItemIds);
+    return { tasksRemoved, removalsWithheld: null };
+  }
+
   /**
    * Start scheduled polling
    */
@@ -148,6 +394,16 @@ export class PollingService {
       });
     });
 
+    // Full reconcile on a slower schedule to catch anything incremental syncs miss
+    if (config.polling.incremental) {
+      console.log(`Starting scheduled full sync with cron: ${config.polling.fullSyncCronSchedule}`);
+      this.fullSyncCronJob = cron.schedule(config.polling.fullSyncCronSchedule, () => {
+        this.poll('full').catch((error) => {
+          console.error('Error in scheduled full sync:', error);
+        });
+      });
+    }
+
     console.log('✓ Scheduled polling started');
 
     // Run immediately on start
@@ -163,6 +419,8 @@ export class PollingService {
     if (this.cronJob) {
       this.cronJob.stop();
       this.cronJob = null;
+      this.fullSyncCronJob?.stop();
+      this.fullSyncCronJob = null;
       console.log('✓ Scheduled polling stopped');
     }
   }
@@ -175,9 +433,16 @@ export class PollingService {
       isRunning: this.isRunning,
       isScheduled: this.cronJob !== null,
       cronSchedule: config.polling.cronSchedule,
+      projects: this.getProjectSlugs(),
+      incremental: config.polling.incremental,
+      fullSyncCronSchedule: config.polling.incremental ? config.polling.fullSyncCronSchedule : null,
+      lastRunMode: this.lastRunMode,
       lastRunTime: this.lastRunTime,
       lastRunStatus: this.lastRunStatus,
       lastRunError: this.lastRunError,
+      lastRunPointsUsed: this.lastRunPointsUsed,
+      rateLimitRemaining: rateLimitTracker.getRemaining(),
+      rateLimitResetAt: rateLimitTracker.getResetAt(),
     };
   }
 }
@@ -1,4 +1,15 @@
-import { Task, TaskStats } from '../types/task';
+import {
+  Task,
+  TaskStats,
+  TaskRollup,
+  TaskTreeNode,
+  PullRequestMetrics,
+  DurationSummary,
+} from '../types/task';
+import { config } from '../config';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
 
 /**
  * Service to process and analyze tasks
@@ -27,9 +38,15 @@ export class TaskProcessorService {
   }
 
   /**
-   * Calculate statistics from tasks
+   * Calculate statistics from tasks. Priorities are already normalised, so
+   * the configured critical/high levels are compared directly.
    */
   calculateStats(tasks: Task[]): TaskStats {
+    const critical = config.fields.criticalPriority.toUpperCase();
+    const high = config.fields.highPriority.toUpperCase();
+    const isCritical = (t: Task) => t.priority?.toUpperCase() === critical;
+    const isHigh = (t: Task) => t.priority?.toUpperCase() === high;
+
     const total = tasks.length;
 
     const open = tasks.filter(
@@ -43,6 +60,12 @@ export class TaskProcessorService {
     const overdueList = tasks.filter((t) => this.isOverdue(t));
     const overdue = overdueList.length;
 
+    const draftList = tasks.filter((t) => t.type === 'DRAFT_ISSUE');
+    const drafts = draftList.length;
+
+    const noLinkedPRList = tasks.filter((t) => t.developmentState === 'NO_PR');
+    const noLinkedPR = noLinkedPRList.length;
+
     // Tasks without First Tech Handoff ETA Date (only count open tasks)
     const noTechHandoffETAList = tasks.filter(
       (t) => t.state === 'OPEN' && !t.dueDate
@@ -50,14 +73,10 @@ export class TaskProcessorService {
     const noTechHandoffETA = noTechHandoffETAList.length;
 
     // No First Tech Handoff ETA Date by priority
-    const noETAP0List = noTechHandoffETAList.filter(
-      (t) => t.priority?.toUpperCase() === 'P0'
-    );
-    const noETAP1List = noTechHandoffETAList.filter(
-      (t) => t.priority?.toUpperCase() === 'P1'
-    );
+    const noETAP0List = noTechHandoffETAList.filter(isCritical);
+    const noETAP1List = noTechHandoffETAList.filter(isHigh);
     const noETANoPriorityList = noTechHandoffETAList.filter(
-      (t) => !t.priority || (t.priority.toUpperCase() !== 'P0' && t.priority.toUpperCase() !== 'P1')
+      (t) => !isCritical(t) && !isHigh(t)
     );
 
     // Unassigned tasks by priority (only count open tasks)
@@ -65,14 +84,10 @@ export class TaskProcessorService {
       (t) => t.state === 'OPEN' && t.assignees.length === 0
     );
 
-    const p0List = unassignedTasks.filter(
-      (t) => t.priority?.toUpperCase() === 'P0'
-    );
-    const p1List = unassignedTasks.filter(
-      (t) => t.priority?.toUpperCase() === 'P1'
-    );
+    const p0List = unassignedTasks.filter(isCritical);
+    const p1List = unassignedTasks.filter(isHigh);
     const noPriorityList = unassignedTasks.filter(
-      (t) => !t.priority || (t.priority.toUpperCase() !== 'P0' && t.priority.toUpperCase() !== 'P1')
+      (t) => !isCritical(t) && !isHigh(t)
     );
 
     return {
@@ -81,6 +96,10 @@ export class TaskProcessorService {
       closed,
       overdue,
       overdueList,
+      drafts,
+      draftList,
+      noLinkedPR,
+      noLinkedPRList,
       noTechHandoffETA,
       noTechHandoffETAList,
       noTechHandoffETAByPriority: {
@@ -124,7 +143,7 @@ export class TaskProcessorService {
     const grouped = new Map<string, Task[]>();
 
     for (const task of tasks) {
-      const repo = task.repository || 'unknown';
+      const repo = task.repository || (task.type === 'DRAFT_ISSUE' ? 'draft' : 'unknown');
       if (!grouped.has(repo)) {
         grouped.set(repo, []);
       }
@@ -178,6 +197,152 @@ export class TaskProcessorService {
     return grouped;
   }
 
+  /**
+   * Arrange tasks into parent/sub-issue trees. A task whose parent is not
+   * on the same board is a root.
+   */
+  buildTaskTree(tasks: Task[]): TaskTreeNode[] {
+    const key = (project: string | null, githubId: string) => `${project ?? ''} ${githubId}`;
+    const nodes = new Map<string, TaskTreeNode>();
+
+    for (const task of tasks) {
+      nodes.set(key(task.project, task.githubId), { task, rollup: null, children: [] });
+    }
+
+    const roots: TaskTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.task.parentGithubId
+        ? nodes.get(key(node.task.project, node.task.parentGithubId))
+        : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    for (const node of nodes.values()) {
+      if (node.children.length > 0 || node.task.subIssuesTotal > 0) {
+        node.rollup = this.calculateRollup(node.task, node.children.map((child) => child.task));
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Rollup figures for a parent issue from its direct children
+   */
+  private calculateRollup(parent: Task, children: Task[]): TaskRollup {
+    // GitHub's summary also counts sub-issues that are not on the board
+    const subIssues = Math.max(parent.subIssuesTotal, children.length);
+    const completedSubIssues = parent.subIssuesTotal > 0
+      ? parent.subIssuesCompleted
+      : children.filter((c) => c.state !== 'OPEN').length;
+
+    const dueDates = children
+      .filter((c) => c.dueDate !== null)
+      .map((c) => c.dueDate!.getTime());
+
+    return {
+      subIssues,
+      completedSubIssues,
+      percentComplete: subIssues > 0 ? Math.round((completedSubIssues / subIssues) * 100) : 0,
+      childrenOnBoard: children.length,
+      overdueChildren: children.filter((c) => this.isOverdue(c)).length,
+      unassignedChildren: children.filter((c) => c.state === 'OPEN' && c.assignees.length === 0).length,
+      latestChildDueDate: dueDates.length > 0 ? new Date(Math.max(...dueDates)) : null,
+    };
+  }
+
+  /**
+   * Review queue, CI health and throughput of the pull requests among
+   * `tasks`. Durations and merge counts cover the last `weeks` weeks.
+   */
+  calculatePullRequestMetrics(tasks: Task[], weeks = 12, now: Date = new Date()): PullRequestMetrics {
+    const pullRequests = tasks.filter((t) => t.type === 'PULL_REQUEST' && t.pullRequest);
+    const open = pullRequests.filter((t) => t.state === 'OPEN');
+    const ready = open.filter((t) => !t.pullRequest!.isDraft);
+
+    // Changes requested and not re-requested means the author has the ball
+    const waitingOnReview = ready
+      .filter((t) =>
+        t.pullRequest!.requestedReviewers.length > 0 ||
+        t.pullRequest!.reviewDecision === 'REVIEW_REQUIRED'
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    const failingChecks = open.filter(
+      (t) => t.pullRequest!.checksState === 'FAILURE' || t.pullRequest!.checksState === 'ERROR'
+    );
+
+    const load = new Map<string, number>();
+    for (const task of ready) {
+      for (const reviewer of task.pullRequest!.requestedReviewers) {
+        load.set(reviewer, (load.get(reviewer) || 0) + 1);
+      }
+    }
+    const reviewLoad = Array.from(load, ([reviewer, pending]) => ({ reviewer, pending }))
+      .sort((a, b) => b.pending - a.pending || a.reviewer.localeCompare(b.reviewer));
+
+    // Weeks start on Monday, UTC; the current week is included
+    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const thisWeek = today.getTime() - ((today.getUTCDay() + 6) % 7) * DAY_MS;
+    const windowStart = thisWeek - (weeks - 1) * 7 * DAY_MS;
+
+    const hours = (from: Date, to: Date) => (to.getTime() - from.getTime()) / HOUR_MS;
+
+    const firstReviewed = pullRequests.filter(
+      (t) => t.pullRequest!.firstReviewAt && t.pullRequest!.firstReviewAt.getTime() >= windowStart
+    );
+    const merged = pullRequests.filter(
+      (t) => t.state === 'MERGED' && t.mergedAt && t.mergedAt.getTime() >= windowStart
+    );
+
+    const mergedPerWeek = Array.from({ length: weeks }, (_, i) => {
+      const weekStart = windowStart + i * 7 * DAY_MS;
+      return {
+        weekStart: new Date(weekStart).toISOString().split('T')[0],
+        merged: merged.filter(
+          (t) => t.mergedAt!.getTime() >= weekStart && t.mergedAt!.getTime() < weekStart + 7 * DAY_MS
+        ).length,
+      };
+    });
+
+    return {
+      open: open.length,
+      drafts: open.length - ready.length,
+      waitingOnReview,
+      failingChecks,
+      reviewLoad,
+      timeToFirstReview: this.summarizeDurations(
+        firstReviewed.map((t) => hours(t.createdAt, t.pullRequest!.firstReviewAt!))
+      ),
+      timeToMerge: this.summarizeDurations(merged.map((t) => hours(t.createdAt, t.mergedAt!))),
+      mergedPerWeek,
+    };
+  }
+
+  /**
+   * Median and average of durations in hours, to one decimal place
+   */
+  private summarizeDurations(hours: number[]): DurationSummary {
+    if (hours.length === 0) {
+      return { count: 0, medianHours: null, averageHours: null };
+    }
+
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const sorted = [...hours].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+
+    return {
+      count: hours.length,
+      medianHours: round(median),
+      averageHours: round(hours.reduce((sum, h) => sum + h, 0) / hours.length),
+    };
+  }
+
   /**
    * Sort tasks by creation date (newest first)
    */
@@ -204,7 +369,7 @@ export class TaskProcessorService {
   }
 
   /**
-   * Filter tasks by date range
+   * Filter tasks by the date they were added to the project
    */
   filterByDateRange(
     tasks: Task[],
@@ -212,16 +377,35 @@ export class TaskProcessorService {
     endDate: Date | null
   ): Task[] {
     return tasks.filter((task) => {
-      if (startDate && task.createdAt < startDate) {
+      const addedAt = task.addedToProjectAt ?? task.createdAt;
+      if (startDate && addedAt < startDate) {
         return false;
       }
-      if (endDate && task.createdAt > endDate) {
+      if (endDate && addedAt > endDate) {
         return false;
       }
       return true;
     });
   }
 
+  /**
+   * Filter tasks by project field values, e.g. { Area: 'Backend' }.
+   * Field names and values are compared case-insensitively.
+   */
+  filterByFields(tasks: Task[], filters: Record<string, string>): Task[] {
+    const wanted = Object.entries(filters).map(([name, value]) => [
+      name.toLowerCase(),
+      value.toLowerCase(),
+    ]);
+
+    return tasks.filter((task) => {
+      const values = new Map(
+        Object.entries(task.fields).map(([name, value]) => [name.toLowerCase(), value.toLowerCase()])
+      );
+      return wanted.every(([name, value]) => values.get(name) === value);
+    });
+  }
+
   /**
    * Get summary report
    */
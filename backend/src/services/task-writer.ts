@@ -0,0 +1,247 @@
+import { PollingService } from './polling-service';
+import { TaskRepository } from '../database/task-repository';
+import { IterationRepository } from '../database/iteration-repository';
+import { withTransaction } from '../database/connection';
+import {
+  updateProjectItemField,
+  resolveAssigneeChange,
+  applyAssigneeChange,
+  resolveLabelChange,
+  applyLabelChange,
+} from '../utils/github-graphql';
+import { getMappedFieldName, normalizePriority, FieldConcept } from '../utils/field-mapping';
+import { ProjectV2Field, ProjectV2FieldValueInput } from '../types/github';
+import { Task, TaskUpdate } from '../types/task';
+
+type WritableConcept = 'status' | 'priority' | 'dueDate';
+
+const WRITABLE_CONCEPTS: WritableConcept[] = ['status', 'priority', 'dueDate'];
+
+/**
+ * The update can not be applied; `status` is the HTTP status to answer with
+ */
+export class TaskUpdateError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'TaskUpdateError';
+  }
+}
+
+interface FieldChange {
+  concept: WritableConcept;
+  field: ProjectV2Field;
+  input: ProjectV2FieldValueInput | null;
+  value: string | null; // Stored form, as the next sync would read it
+}
+
+/**
+ * Writes field and assignee changes made on the dashboard back to GitHub,
+ * then stores them so they show straight away. The next sync reads them
+ * back from GitHub.
+ */
+export class TaskWriteService {
+  private pollingService: PollingService;
+  private taskRepository: TaskRepository;
+  private iterationRepository: IterationRepository;
+
+  constructor(pollingService: PollingService) {
+    this.pollingService = pollingService;
+    this.taskRepository = new TaskRepository();
+    this.iterationRepository = new IterationRepository();
+  }
+
+  /**
+   * Apply `update` to the task on the project item `projectItemId`.
+   * Every value is checked before anything is sent to GitHub.
+   */
+  async updateTask(projectItemId: string, update: TaskUpdate): Promise<Task> {
+    const found = await this.taskRepository.findTaskByItemId(projectItemId);
+    if (!found) {
+      throw new TaskUpdateError(`Unknown task "${projectItemId}"`, 404);
+    }
+
+    const { projectId, task } = found;
+    const fetcher = task.project ? this.pollingService.getFetcher(task.project) : null;
+    const projectNodeId = fetcher?.getProjectId();
+    if (!fetcher || !projectNodeId) {
+      throw new TaskUpdateError(`Project ${task.project} is not being monitored`, 409);
+    }
+
+    const changes: FieldChange[] = [];
+    for (const concept of WRITABLE_CONCEPTS) {
+      const value = update[concept];
+      if (value === undefined) continue;
+
+      const field = fetcher.getMappedField(concept);
+      if (!field) {
+        throw new TaskUpdateError(`No ${concept} field is mapped for project ${task.project}`);
+      }
+      changes.push({ concept, field, ...this.toFieldValue(concept, field, value) });
+    }
+
+    const assignees = update.assignees?.map((login) => login.trim().replace(/^@/, '')).filter(Boolean);
+    const addLabels = (update.addLabels || []).map((name) => name.trim()).filter(Boolean);
+    const removeLabels = (update.removeLabels || []).map((name) => name.trim()).filter(Boolean);
+    if ((addLabels.length > 0 || removeLabels.length > 0) && task.type === 'DRAFT_ISSUE') {
+      throw new TaskUpdateError('Draft issues can not have labels');
+    }
+
+    // Resolve users and labels to IDs first, so an unknown login or label
+    // fails the update before GitHub is changed at all
+    const assigneeChange = assignees ? await resolveAssigneeChange(task.id, assignees) : undefined;
+    const labelChange = addLabels.length > 0 || removeLabels.length > 0
+      ? await resolveLabelChange(task.id, addLabels, removeLabels)
+      : undefined;
+    if (assigneeChange === null || labelChange === null) {
+      throw new TaskUpdateError(`Project item "${task.id}" no longer exists on GitHub`, 404);
+    }
+
+    for (const change of changes) {
+      await updateProjectItemField(projectNodeId, task.id, change.field.id, change.input);
+    }
+    if (assigneeChange) {
+      await applyAssigneeChange(assigneeChange);
+    }
+    if (labelChange) {
+      await applyLabelChange(labelChange);
+    }
+
+    // Reflect the change locally until the next sync confirms it
+    for (const change of changes) {
+      this.applyChange(task, change);
+    }
+    if (assignees) {
+      task.assignees = assignees;
+    }
+    const removed = new Set(removeLabels.map((name) => name.toLowerCase()));
+    task.labels = [
+      ...task.labels.filter((name) => !removed.has(name.toLowerCase())),
+      ...addLabels.filter((name) => !task.labels.some((l) => l.toLowerCase() === name.toLowerCase())),
+    ];
+    await this.taskRepository.upsertTask(projectId, task, 'edit');
+
+    console.log(`✓ Updated ${task.githubId} on GitHub (${[
+      ...changes.map((c) => c.concept),
+      ...(assignees ? ['assignees'] : []),
+      ...(addLabels.length > 0 || removeLabels.length > 0 ? ['labels'] : []),
+    ].join(', ')})`);
+
+    return task;
+  }
+
+  /**
+   * Bring back a task that was marked as removed from its board, once
+   * GitHub confirms the item is on the board; e.g. after a partial fetch
+   * removed it by mistake. The next sync would restore it as well.
+   */
+  async restoreTask(projectItemId: string): Promise<Task> {
+    const found = await this.taskRepository.findTaskByItemId(projectItemId, true);
+    if (!found) {
+      throw new TaskUpdateError(`No removed task "${projectItemId}"`, 404);
+    }
+
+    const { projectId, task } = found;
+    const fetcher = task.project ? this.pollingService.getFetcher(task.project) : null;
+    if (!fetcher) {
+      throw new TaskUpdateError(`Project ${task.project} is not being monitored`, 409);
+    }
+
+    const { tasks } = await fetcher.fetchTasksByItemIds([projectItemId]);
+    const restored = tasks.find((t) => t.id === projectItemId);
+    if (!restored) {
+      throw new TaskUpdateError(
+        `Project item "${projectItemId}" is not on the board on GitHub (removed or archived there)`,
+        409
+      );
+    }
+
+    await withTransaction(async () => {
+      await this.taskRepository.upsertTasks(projectId, [restored], 'edit');
+      await this.iterationRepository.syncTaskIterations(projectId);
+    });
+
+    console.log(`✓ Restored ${restored.githubId} to ${task.project}`);
+    return restored;
+  }
+
+  /**
+   * Mutation input and stored value for a field, checked against its type
+   */
+  private toFieldValue(
+    concept: WritableConcept,
+    field: ProjectV2Field,
+    value: string | null
+  ): { input: ProjectV2FieldValueInput | null; value: string | null } {
+    if (value === null || value.trim() === '') {
+      return { input: null, value: null };
+    }
+    const trimmed = value.trim();
+
+    switch (field.dataType) {
+      case 'SINGLE_SELECT': {
+        const option = this.findOption(concept, field, trimmed);
+        if (!option) {
+          const available = (field.options || []).map((o) => `"${o.name}"`).join(', ');
+          throw new TaskUpdateError(`"${trimmed}" is not an option of ${field.name}. Options: ${available}`);
+        }
+        return { input: { singleSelectOptionId: option.id }, value: option.name };
+      }
+      case 'DATE': {
+        const date = new Date(`${trimmed}T00:00:00Z`);
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed) || Number.isNaN(date.getTime())) {
+          throw new TaskUpdateError(`${field.name} must be a date in YYYY-MM-DD format`);
+        }
+        return { input: { date: trimmed }, value: trimmed };
+      }
+      case 'NUMBER': {
+        const number = Number(trimmed);
+        if (Number.isNaN(number)) {
+          throw new TaskUpdateError(`${field.name} must be a number`);
+        }
+        return { input: { number }, value: String(number) };
+      }
+      case 'TEXT':
+        return { input: { text: trimmed }, value: trimmed };
+      default:
+        throw new TaskUpdateError(`${field.name} is a ${field.dataType} field and can not be edited here`);
+    }
+  }
+
+  /**
+   * Match an option by name; priorities also match on their normalised
+   * level, so "P0" picks "P0 - Critical"
+   */
+  private findOption(concept: FieldConcept, field: ProjectV2Field, value: string) {
+    const options = field.options || [];
+    const exact = options.find((o) => o.name.toLowerCase() === value.toLowerCase());
+    if (exact || concept !== 'priority') {
+      return exact;
+    }
+    const level = normalizePriority(value);
+    return options.find((o) => normalizePriority(o.name) === level);
+  }
+
+  /**
+   * Update the in-memory task the way a sync would read the new value
+   */
+  private applyChange(task: Task, change: FieldChange): void {
+    const fieldName = getMappedFieldName(change.concept)!;
+    const stored = Object.keys(task.fields).find((name) => name.toLowerCase() === fieldName.toLowerCase());
+    delete task.fields[stored ?? change.field.name];
+    if (change.value !== null) {
+      task.fields[change.field.name] = change.value;
+    }
+
+    switch (change.concept) {
+      case 'status':
+        task.status = change.value;
+        break;
+      case 'priority':
+        task.priority = normalizePriority(change.value);
+        break;
+      case 'dueDate':
+        task.dueDate = change.value ? new Date(change.value) : null;
+        break;
+    }
+  }
+}
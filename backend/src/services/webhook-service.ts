@@ -0,0 +1,218 @@
+import { PollingService, MonitoredProject } from './polling-service';
+import { TaskRepository } from '../database/task-repository';
+import { IterationRepository } from '../database/iteration-repository';
+import { WebhookRepository } from '../database/webhook-repository';
+import { withTransaction } from '../database/connection';
+import {
+  ProjectsV2ItemPayload,
+  IssuesPayload,
+  PullRequestPayload,
+  IssueCommentPayload,
+  WebhookRepositoryInfo,
+  WebhookIssue,
+  WebhookDelivery,
+} from '../types/webhook';
+
+export type WebhookOutcome = 'accepted' | 'processed' | 'ignored' | 'duplicate' | 'failed';
+
+// A delivery still processing after this long has stalled (GitHub retry and
+// rate-limit waits take up to 15 minutes), so a redelivery processes it again
+const STALE_DELIVERY_MINUTES = 30;
+
+// projects_v2_item actions after which the item is no longer on the board
+const ITEM_REMOVED_ACTIONS = new Set(['deleted', 'archived']);
+
+/**
+ * Applies GitHub webhook deliveries to the stored tasks as they arrive.
+ * Scheduled polling still reconciles anything a delivery misses.
+ */
+export class WebhookService {
+  private pollingService: PollingService;
+  private taskRepository: TaskRepository;
+  private iterationRepository: IterationRepository;
+  private webhookRepository: WebhookRepository;
+
+  constructor(pollingService: PollingService) {
+    this.pollingService = pollingService;
+    this.taskRepository = new TaskRepository();
+    this.iterationRepository = new IterationRepository();
+    this.webhookRepository = new WebhookRepository();
+  }
+
+  /**
+   * Accept a delivery and process it in the background, so GitHub gets an
+   * answer well within its 10 second timeout. Redeliveries of a delivery
+   * that finished, or is still being processed, are skipped.
+   */
+  async acceptDelivery(deliveryId: string, event: string, payload: any): Promise<WebhookOutcome> {
+    const delivery: WebhookDelivery = { deliveryId, event, action: payload?.action ?? null, payload };
+
+    const claimed = await this.webhookRepository.claimDelivery(delivery, STALE_DELIVERY_MINUTES);
+    if (!claimed) {
+      console.log(`⚠ Webhook delivery ${deliveryId} already received, skipping`);
+      return 'duplicate';
+    }
+
+    this.processInBackground(delivery);
+    return 'accepted';
+  }
+
+  /**
+   * Deliveries do not survive a restart; process the ones that stalled,
+   * i.e. are still unfinished after STALE_DELIVERY_MINUTES
+   */
+  async resumeUnfinishedDeliveries(): Promise<void> {
+    const deliveries = await this.webhookRepository.claimUnfinishedDeliveries(STALE_DELIVERY_MINUTES);
+    if (deliveries.length > 0) {
+      console.warn(`⚠ Processing ${deliveries.length} webhook delivery(ies) that stalled`);
+    }
+    for (const delivery of deliveries) {
+      await this.processDelivery(delivery);
+    }
+  }
+
+  private processInBackground(delivery: WebhookDelivery): void {
+    this.processDelivery(delivery).catch((error) => {
+      console.error(`✗ Webhook delivery ${delivery.deliveryId} stopped:`, error.message);
+    });
+  }
+
+  /**
+   * Process a claimed delivery; failures are stored as dead letters
+   */
+  private async processDelivery(delivery: WebhookDelivery): Promise<WebhookOutcome> {
+    const { deliveryId, event, action, payload } = delivery;
+
+    try {
+      const handled = await this.process(event, payload);
+      await this.webhookRepository.finishDelivery(deliveryId, handled ? 'processed' : 'ignored');
+      return handled ? 'processed' : 'ignored';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`✗ Webhook delivery ${deliveryId} (${event}) failed:`, error);
+      await this.webhookRepository.addDeadLetter(deliveryId, event, action, payload, message);
+      await this.webhookRepository.finishDelivery(deliveryId, 'failed');
+      return 'failed';
+    }
+  }
+
+  /**
+   * Process a dead-lettered delivery again. Returns null if there is no
+   * dead letter with that ID.
+   */
+  async replayDeadLetter(id: number): Promise<WebhookOutcome | null> {
+    const deadLetter = await this.webhookRepository.getDeadLetter(id);
+    if (!deadLetter) {
+      return null;
+    }
+
+    try {
+      const handled = await this.process(deadLetter.event, deadLetter.payload);
+      await this.webhookRepository.recordReplay(id, null);
+      await this.webhookRepository.finishDelivery(deadLetter.deliveryId, handled ? 'processed' : 'ignored');
+      console.log(`✓ Replayed webhook delivery ${deadLetter.deliveryId}`);
+      return handled ? 'processed' : 'ignored';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`✗ Replay of webhook delivery ${deadLetter.deliveryId} failed:`, error);
+      await this.webhookRepository.recordReplay(id, message);
+      return 'failed';
+    }
+  }
+
+  /**
+   * Apply a delivery. Returns false for events that do not concern a
+   * monitored project.
+   */
+  private async process(event: string, payload: any): Promise<boolean> {
+    switch (event) {
+      case 'projects_v2_item':
+        return this.handleProjectItem(payload as ProjectsV2ItemPayload);
+      case 'issues': {
+        const { repository, issue, action } = payload as IssuesPayload;
+        return this.handleContent(repository, issue, action);
+      }
+      case 'pull_request': {
+        const { repository, pull_request, action } = payload as PullRequestPayload;
+        return this.handleContent(repository, pull_request, action);
+      }
+      case 'issue_comment': {
+        // A comment only changes the issue's updatedAt, never removes it
+        const { repository, issue } = payload as IssueCommentPayload;
+        return this.handleContent(repository, issue, null);
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * An item was added to, changed on or removed from a project board
+   */
+  private async handleProjectItem(payload: ProjectsV2ItemPayload): Promise<boolean> {
+    const item = payload.projects_v2_item;
+    const project = this.pollingService.findProjectByNodeId(item.project_node_id);
+    if (!project) {
+      return false;
+    }
+
+    if (ITEM_REMOVED_ACTIONS.has(payload.action)) {
+      await this.taskRepository.markTasksRemoved(project.projectId!, [item.node_id]);
+    } else {
+      await this.refreshItems(project, [item.node_id]);
+    }
+
+    console.log(`✓ Webhook: ${payload.action} item ${item.node_id} on ${project.fetcher.slug}`);
+    return true;
+  }
+
+  /**
+   * An issue or pull request changed; refresh every board item holding it
+   */
+  private async handleContent(
+    repository: WebhookRepositoryInfo,
+    content: WebhookIssue,
+    action: string | null
+  ): Promise<boolean> {
+    const githubId = `${repository.full_name}#${content.number}`;
+    const items = await this.taskRepository.findItemsByGithubId(githubId);
+    if (items.length === 0) {
+      return false;
+    }
+
+    const byProject = new Map<number, string[]>();
+    for (const item of items) {
+      byProject.set(item.projectId, [...(byProject.get(item.projectId) || []), item.projectItemId]);
+    }
+
+    for (const [projectId, itemIds] of byProject) {
+      if (action === 'deleted') {
+        await this.taskRepository.markTasksRemoved(projectId, itemIds);
+        continue;
+      }
+
+      const project = this.pollingService.findProjectById(projectId);
+      if (project) {
+        await this.refreshItems(project, itemIds);
+      }
+    }
+
+    console.log(`✓ Webhook: ${action ?? 'updated'} ${githubId}`);
+    return true;
+  }
+
+  /**
+   * Re-fetch project items and store them, dropping any that no longer exist
+   */
+  private async refreshItems(project: MonitoredProject, itemIds: string[]): Promise<void> {
+    const projectId = project.projectId!;
+    const { tasks, projectItemIds } = await project.fetcher.fetchTasksByItemIds(itemIds);
+
+    const gone = itemIds.filter((id) => !projectItemIds.includes(id));
+    await withTransaction(async () => {
+      await this.taskRepository.markTasksRemoved(projectId, gone);
+      await this.taskRepository.upsertTasks(projectId, tasks, 'webhook');
+      await this.iterationRepository.syncTaskIterations(projectId);
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { join } from 'path';
+import { config } from '../config';
+import { query } from '../database/connection';
+import { migrateUp } from '../database/migrate';
+import { FIXTURE_ROOT } from './setup';
+
+/**
+ * describe() for suites that need PostgreSQL; skipped unless
+ * TEST_DATABASE_URL points at a database the tests may empty
+ */
+export const describeWithDatabase = process.env.TEST_DATABASE_URL ? describe : describe.skip;
+
+/**
+ * Bring the test database up to date and empty every table
+ */
+export async function resetDatabase(): Promise<void> {
+  await migrateUp();
+
+  const result = await query<{ tablename: string }>(
+    `SELECT tablename FROM pg_tables
+     WHERE schemaname = current_schema() AND tablename <> 'schema_migrations'`
+  );
+  const tables = result.rows.map((row) => `"${row.tablename}"`);
+  if (tables.length > 0) {
+    await query(`TRUNCATE ${tables.join(', ')} RESTART IDENTITY CASCADE`);
+  }
+}
+
+/**
+ * Answer GitHub requests from a recorded scenario under fixtures/github,
+ * e.g. the same board after an item was removed
+ */
+export function useGitHubFixtures(scenario: string): void {
+  config.github.fixtures.dir = join(FIXTURE_ROOT, 'github', scenario);
+}
+
+/**
+ * Raw body of a recorded webhook delivery under fixtures/webhooks
+ */
+export function webhookFixturePath(name: string): string {
+  return join(FIXTURE_ROOT, 'webhooks', name);
+}
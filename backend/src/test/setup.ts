@@ -0,0 +1,24 @@
+import { join } from 'path';
+
+/**
+ * Environment for every test file, set before the config is loaded. GitHub
+ * requests are answered from the recordings under fixtures/github, and the
+ * field mapping is pinned to the fixture board's fields so a local .env
+ * can not change it.
+ */
+export const FIXTURE_ROOT = join(__dirname, 'fixtures');
+
+process.env.GITHUB_FIXTURE_MODE = 'replay';
+process.env.GITHUB_FIXTURE_DIR = join(FIXTURE_ROOT, 'github', 'board');
+process.env.GITHUB_PROJECTS = 'fixture-org/1';
+process.env.FIELD_STATUS = 'Status';
+process.env.FIELD_PRIORITY = 'Priority';
+process.env.FIELD_DUE_DATE = 'First Tech Handoff ETA';
+process.env.FIELD_ESTIMATE = '';
+process.env.FIELD_ITERATION = '';
+process.env.POLLING_REMOVAL_MAX_FRACTION = '0.5';
+
+// Database tests run only against a database set aside for them
+if (process.env.TEST_DATABASE_URL) {
+  process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+}
@@ -0,0 +1,36 @@
+// Bulk triage jobs: one action applied to many tasks, with per-item results
+
+import { TaskUpdate } from './task';
+
+export type BulkAction = 'setPriority' | 'setStatus' | 'setDueDate' | 'assign' | 'unassign' | 'addLabel';
+
+export type BulkJobStatus = 'running' | 'completed' | 'partial' | 'failed' | 'interrupted';
+
+// Skipped items already had the requested value
+export type BulkJobItemStatus = 'pending' | 'succeeded' | 'skipped' | 'failed';
+
+export interface BulkJobItem {
+  projectItemId: string;
+  githubId: string | null;
+  status: BulkJobItemStatus;
+  update: TaskUpdate | null; // Change applied to the item
+  undo: TaskUpdate | null; // Change that restores the previous values
+  error: string | null;
+  finishedAt: Date | null;
+}
+
+export interface BulkJob {
+  id: number;
+  action: BulkAction | 'undo';
+  value: string | null;
+  status: BulkJobStatus;
+  undoOf: number | null; // Job this one undoes
+  undoneBy: number | null; // Job that undid this one
+  total: number;
+  succeeded: number;
+  skipped: number;
+  failed: number;
+  createdAt: Date;
+  finishedAt: Date | null;
+  items?: BulkJobItem[];
+}
@@ -1,13 +1,47 @@
 // GitHub API Types
 
+export interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+export interface GitHubAssignees {
+  pageInfo?: PageInfo;
+  nodes: Array<{
+    login: string;
+    name: string | null;
+  }>;
+}
+
+export interface GitHubLabels {
+  pageInfo?: PageInfo;
+  nodes: Array<{
+    name: string;
+  }>;
+}
+
 export interface GitHubIssue {
+  id: string;
   title: string;
   number: number;
   state: 'OPEN' | 'CLOSED';
-  assignees: {
+  assignees: GitHubAssignees;
+  labels: GitHubLabels;
+  milestone: { title: string } | null;
+  author: { login: string } | null; // Null for deleted accounts
+  closedAt: string | null;
+  // Optional fields are not requested from servers that lack them
+  issueType?: { name: string } | null;
+  parent?: { number: number; repository: { nameWithOwner: string } } | null;
+  subIssuesSummary?: { total: number; completed: number };
+  // Pull requests that will close the issue when merged, including closed ones
+  closedByPullRequestsReferences?: {
     nodes: Array<{
-      login: string;
-      name: string | null;
+      number: number;
+      state: 'OPEN' | 'CLOSED' | 'MERGED';
+      isDraft: boolean;
+      url: string;
+      repository: { nameWithOwner: string };
     }>;
   };
   createdAt: string;
@@ -18,14 +52,38 @@ export interface GitHubIssue {
   };
 }
 
+export type PullRequestReviewDecision = 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED';
+
+export type StatusCheckState = 'SUCCESS' | 'FAILURE' | 'ERROR' | 'PENDING' | 'EXPECTED';
+
 export interface GitHubPullRequest {
+  id: string;
   title: string;
   number: number;
   state: 'OPEN' | 'CLOSED' | 'MERGED';
-  assignees: {
+  assignees: GitHubAssignees;
+  labels: GitHubLabels;
+  milestone: { title: string } | null;
+  author: { login: string } | null;
+  closedAt: string | null;
+  mergedAt: string | null;
+  isDraft: boolean;
+  reviewDecision: PullRequestReviewDecision | null; // Null when the branch needs no review
+  mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+  reviewRequests: {
+    nodes: Array<{
+      // Null for reviewers that are not visible to the token
+      requestedReviewer: { __typename: string; login?: string; combinedSlug?: string } | null;
+    }>;
+  };
+  // Oldest first, so the first node is the first review
+  reviews: {
+    totalCount: number;
+    nodes: Array<{ submittedAt: string | null }>;
+  };
+  commits?: {
     nodes: Array<{
-      login: string;
-      name: string | null;
+      commit: { statusCheckRollup: { state: StatusCheckState } | null };
     }>;
   };
   createdAt: string;
@@ -37,8 +95,13 @@ export interface GitHubPullRequest {
 }
 
 export interface GitHubDraftIssue {
+  id: string;
   title: string;
   body: string;
+  assignees: GitHubAssignees;
+  creator: { login: string } | null;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export type GitHubContent = GitHubIssue | GitHubPullRequest | GitHubDraftIssue;
@@ -52,14 +115,33 @@ export interface ProjectV2ItemFieldValue {
   date?: string;
   name?: string;
   number?: number;
+  title?: string; // Iteration values
+  startDate?: string;
+  duration?: number;
+  iterationId?: string;
 }
 
 export interface ProjectV2Item {
   id: string;
+  createdAt: string; // When the item was added to the project
+  updatedAt: string;
   fieldValues: {
+    pageInfo?: PageInfo;
     nodes: ProjectV2ItemFieldValue[];
   };
   content: GitHubContent | null;
+  isArchived?: boolean; // Only queried when fetching items by ID
+}
+
+export interface ProjectV2ItemSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  content: {
+    __typename: string;
+    updatedAt?: string;
+    state?: string; // Pull requests only
+  } | null;
 }
 
 export interface ProjectV2 {
@@ -83,10 +165,74 @@ export interface ProjectV2Field {
     id: string;
     name: string;
   }>;
+  configuration?: {
+    iterations: ProjectV2IterationDefinition[];
+    completedIterations: ProjectV2IterationDefinition[];
+  };
+}
+
+// Value for updateProjectV2ItemFieldValue; set the one matching the field's type
+export interface ProjectV2FieldValueInput {
+  text?: string;
+  number?: number;
+  date?: string; // YYYY-MM-DD
+  singleSelectOptionId?: string;
+  iterationId?: string;
+}
+
+// Assignee mutations for a project item's content, with user IDs resolved
+export interface AssigneeChange {
+  contentId: string;
+  draft: boolean; // Drafts take the full list in assigneeIds
+  assigneeIds: string[];
+  addIds: string[];
+  removeIds: string[];
+}
+
+// Label mutations for a project item's issue or pull request, with label IDs resolved
+export interface LabelChange {
+  contentId: string;
+  addIds: string[];
+  removeIds: string[];
+}
+
+export interface ProjectV2IterationDefinition {
+  id: string;
+  title: string;
+  startDate: string; // YYYY-MM-DD
+  duration: number; // Days
 }
 
 export interface ProjectV2FieldsResponse {
   fields: {
+    pageInfo?: PageInfo;
     nodes: ProjectV2Field[];
   };
 }
+
+// Timeline events used to reconstruct a task's history
+export interface TimelineEvent {
+  __typename:
+    | 'ClosedEvent'
+    | 'ReopenedEvent'
+    | 'MergedEvent'
+    | 'AddedToProjectV2Event'
+    | 'RemovedFromProjectV2Event'
+    | 'ProjectV2ItemStatusChangedEvent';
+  createdAt: string;
+  project?: { id: string } | null;
+  previousStatus?: string | null;
+  status?: string | null;
+}
+
+export interface ProjectV2ItemTimeline {
+  id: string;
+  content: {
+    __typename: string;
+    id?: string;
+    timelineItems?: {
+      pageInfo: PageInfo;
+      nodes: TimelineEvent[];
+    };
+  } | null;
+}
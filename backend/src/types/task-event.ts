@@ -0,0 +1,38 @@
+// Field-level change log: what changed on a task, and when it was noticed
+
+export type TaskEventType =
+  | 'title_changed'
+  | 'state_changed'
+  | 'status_changed'
+  | 'priority_changed'
+  | 'due_date_changed'
+  | 'estimate_changed';
+
+// What stored the change: a polling run, a webhook delivery or a dashboard edit
+export type TaskEventSource = 'sync' | 'webhook' | 'edit';
+
+export interface TaskEvent {
+  id: number;
+  project: string | null;
+  taskId: string; // Project item ID
+  githubId: string;
+  title: string; // Current title
+  repository: string | null;
+  number: number;
+  type: TaskEventType;
+  oldValue: string | null; // Dates as YYYY-MM-DD
+  newValue: string | null;
+  source: TaskEventSource;
+  syncRunId: number | null;
+  detectedAt: Date;
+}
+
+export interface TaskEventFilters {
+  projectId?: number | null;
+  githubId?: string | null;
+  types?: TaskEventType[] | null;
+  repository?: string | null;
+  since?: Date | null;
+  until?: Date | null;
+  limit: number;
+}
@@ -2,6 +2,7 @@
 
 export interface Task {
   id: string;
+  project: string | null; // Project the item belongs to, as "org/number"
   githubId: string;
   title: string;
   number: number;
@@ -13,8 +14,98 @@ export interface Task {
   priority: string | null; // Priority field (e.g., "P0", "P1", "P2")
   createdAt: Date;
   updatedAt: Date;
-  dueDate: Date | null; // This is the First Tech Handoff ETA Date field from GitHub
+  dueDate: Date | null; // Mapped due date field (First Tech Handoff ETA by default)
+  estimate: number | null; // Mapped estimate field, if configured
+  fields: Record<string, string>; // Every project field value, keyed by field name
+  iterationId: string | null; // GitHub ID of the iteration (sprint) the task is in
+  labels: string[];
+  milestone: string | null; // Milestone title
+  author: string | null; // GitHub username of the author (draft creator for drafts)
+  issueType: string | null; // Organization issue type (e.g., "Bug", "Feature"), issues only
+  closedAt: Date | null;
+  mergedAt: Date | null; // Pull requests only
   addedToProjectAt: Date | null;
+  parentGithubId: string | null; // githubId of the parent issue, for sub-issues
+  subIssuesTotal: number; // Sub-issues on GitHub, whether or not they are on the board
+  subIssuesCompleted: number;
+  pullRequest: PullRequestDetails | null; // Pull requests only
+  linkedPullRequests: LinkedPullRequest[]; // Pull requests that close this issue, issues only
+  developmentState: DevelopmentState | null; // Open issues only
+}
+
+// A task whose item is no longer on its board; kept for its history
+export interface RemovedTask extends Task {
+  removedFromProjectAt: Date;
+}
+
+// Where an open issue is in development, from its linked pull requests:
+// none (or only closed ones), a draft PR, a PR ready for review, or a
+// merged PR while the issue is still open
+export type DevelopmentState = 'NO_PR' | 'PR_OPEN' | 'IN_REVIEW' | 'MERGED';
+
+export interface LinkedPullRequest {
+  githubId: string; // "owner/repo#number"
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  isDraft: boolean;
+  url: string;
+}
+
+// Review and CI state of a pull request
+export interface PullRequestDetails {
+  isDraft: boolean;
+  reviewDecision: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+  requestedReviewers: string[]; // Usernames, and "org/team" for teams
+  reviewCount: number;
+  firstReviewAt: Date | null;
+  mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+  checksState: 'SUCCESS' | 'FAILURE' | 'ERROR' | 'PENDING' | 'EXPECTED' | null; // Head commit status-check rollup
+}
+
+// Spread of a duration over a set of pull requests
+export interface DurationSummary {
+  count: number;
+  medianHours: number | null;
+  averageHours: number | null;
+}
+
+export interface PullRequestMetrics {
+  open: number;
+  drafts: number;
+  waitingOnReview: Task[]; // Open, ready for review, not yet approved
+  failingChecks: Task[]; // Open, with a failed or errored status-check rollup
+  reviewLoad: Array<{ reviewer: string; pending: number }>; // Open review requests per reviewer
+  timeToFirstReview: DurationSummary;
+  timeToMerge: DurationSummary;
+  mergedPerWeek: Array<{ weekStart: string; merged: number }>; // Weeks start on Monday (UTC)
+}
+
+// Changes to a task written back to GitHub; null clears a field, omitted
+// fields are left alone
+export interface TaskUpdate {
+  status?: string | null;
+  priority?: string | null;
+  dueDate?: string | null; // YYYY-MM-DD
+  assignees?: string[];
+  addLabels?: string[];
+  removeLabels?: string[];
+}
+
+// Health of a parent issue. Percent complete covers every sub-issue on
+// GitHub; the other figures cover the direct children on the board.
+export interface TaskRollup {
+  subIssues: number;
+  completedSubIssues: number;
+  percentComplete: number; // 0-100
+  childrenOnBoard: number;
+  overdueChildren: number;
+  unassignedChildren: number; // Open children with no assignee
+  latestChildDueDate: Date | null;
+}
+
+export interface TaskTreeNode {
+  task: Task;
+  rollup: TaskRollup | null; // Null for tasks without sub-issues
+  children: TaskTreeNode[];
 }
 
 export interface TaskStats {
@@ -23,6 +114,10 @@ export interface TaskStats {
   closed: number;
   overdue: number;
   overdueList: Task[];
+  drafts: number; // Draft issues (counted in total/open as well)
+  draftList: Task[];
+  noLinkedPR: number; // Open issues with no open or merged PR
+  noLinkedPRList: Task[];
   noTechHandoffETA: number;
   noTechHandoffETAList: Task[];
   noTechHandoffETAByPriority: {
@@ -43,6 +138,15 @@ export interface TaskStats {
   };
 }
 
+export interface Project {
+  id: number;
+  org: string;
+  number: number;
+  slug: string; // "org/number"
+  nodeId: string | null;
+  title: string | null;
+}
+
 export interface TaskSnapshot {
   id?: number;
   snapshotDate: Date;
@@ -51,6 +155,15 @@ export interface TaskSnapshot {
   status: string | null;
 }
 
+// A task's state at the end of one day, rebuilt from its timeline
+export interface ReconstructedSnapshot {
+  projectItemId: string;
+  date: string; // YYYY-MM-DD (UTC)
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  status: string | null;
+  isOverdue: boolean;
+}
+
 export interface TaskAssignment {
   id?: number;
   taskId: string;
@@ -66,3 +179,47 @@ export interface HistoricalData {
   closedTasks: number;
   overdueTasks: number;
 }
+
+export interface Iteration {
+  iterationId: string; // GitHub iteration ID
+  project: string; // "org/number"
+  fieldName: string;
+  title: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // Exclusive
+  duration: number; // Days
+  completed: boolean;
+}
+
+export interface SprintReport {
+  iterationId: string;
+  project: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+  isCurrent: boolean;
+  committed: number; // Tasks in the sprint at any point
+  completed: number; // Closed tasks still in the sprint
+  remaining: number; // Open tasks still in the sprint
+  spilledOver: number; // Tasks moved on to a later sprint
+  completionRate: number; // completed / committed, 0-1
+}
+
+export type SyncMode = 'full' | 'incremental';
+
+export interface SyncRun {
+  id: number;
+  project: string | null;
+  mode: SyncMode;
+  startedAt: Date;
+  finishedAt: Date | null;
+  status: 'running' | 'success' | 'error';
+  error: string | null;
+  tasksFetched: number | null;
+  pointsUsed: number | null; // GraphQL rate limit points spent during the run
+  pointsRemaining: number | null;
+  highWaterMark: Date | null; // Items changed at or after this are picked up by the next incremental run
+  truncatedItems: number | null; // Items whose field values or assignees needed follow-up queries
+  tasksRemoved: number | null; // Tasks marked as no longer on the board
+  removalsWithheld: number | null; // Removals skipped because they exceeded the safety threshold
+}
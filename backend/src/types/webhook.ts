@@ -0,0 +1,61 @@
+// GitHub webhook payloads, limited to the fields the receiver uses
+
+export type WebhookEvent = 'projects_v2_item' | 'issues' | 'pull_request' | 'issue_comment';
+
+export type DeliveryStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+// A delivery accepted for processing
+export interface WebhookDelivery {
+  deliveryId: string;
+  event: string;
+  action: string | null;
+  payload: any;
+}
+
+export interface WebhookRepositoryInfo {
+  full_name: string;
+}
+
+export interface WebhookIssue {
+  number: number;
+}
+
+export interface ProjectsV2ItemPayload {
+  action: string;
+  projects_v2_item: {
+    node_id: string;
+    project_node_id: string;
+    content_type: 'Issue' | 'PullRequest' | 'DraftIssue';
+  };
+}
+
+export interface IssuesPayload {
+  action: string;
+  issue: WebhookIssue;
+  repository: WebhookRepositoryInfo;
+}
+
+export interface PullRequestPayload {
+  action: string;
+  pull_request: WebhookIssue;
+  repository: WebhookRepositoryInfo;
+}
+
+// Comments on pull requests also arrive as issue_comment events
+export interface IssueCommentPayload {
+  action: string;
+  issue: WebhookIssue;
+  repository: WebhookRepositoryInfo;
+}
+
+export interface WebhookDeadLetter {
+  id: number;
+  deliveryId: string;
+  event: string;
+  action: string | null;
+  payload: any;
+  error: string | null;
+  attempts: number;
+  failedAt: Date;
+  replayedAt: Date | null;
+}
@@ -0,0 +1,16 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Check an "Authorization: Bearer <token>" header against the expected token
+ */
+export function verifyBearerToken(expected: string, authorization: string | undefined): boolean {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const received = Buffer.from(match[1].trim());
+  const wanted = Buffer.from(expected);
+
+  return received.length === wanted.length && timingSafeEqual(received, wanted);
+}
@@ -0,0 +1,94 @@
+import { config } from '../config';
+import { ProjectV2Field } from '../types/github';
+
+export type FieldConcept = 'status' | 'priority' | 'dueDate' | 'estimate' | 'iteration';
+
+// Project field data types each concept can be read from
+const SUPPORTED_DATA_TYPES: Record<FieldConcept, string[]> = {
+  status: ['SINGLE_SELECT', 'TEXT'],
+  priority: ['SINGLE_SELECT', 'TEXT', 'NUMBER'],
+  dueDate: ['DATE', 'TEXT'],
+  estimate: ['NUMBER', 'TEXT'],
+  iteration: ['ITERATION'],
+};
+
+const CONCEPTS: FieldConcept[] = ['status', 'priority', 'dueDate', 'estimate', 'iteration'];
+
+/**
+ * Project field name configured for a concept, or null if it is unmapped
+ */
+export function getMappedFieldName(concept: FieldConcept): string | null {
+  const name = config.fields[concept].trim();
+  return name.length > 0 ? name : null;
+}
+
+/**
+ * Check the configured field mapping against a project's fields.
+ * Throws listing every mapped field that is missing or has the wrong type.
+ */
+export function validateFieldMapping(fields: ProjectV2Field[], project: string): void {
+  const problems: string[] = [];
+
+  for (const concept of CONCEPTS) {
+    const name = getMappedFieldName(concept);
+    if (!name) continue;
+
+    const field = fields.find((f) => f.name?.toLowerCase() === name.toLowerCase());
+    if (!field) {
+      problems.push(`${concept} field "${name}" does not exist`);
+      continue;
+    }
+
+    const supported = SUPPORTED_DATA_TYPES[concept];
+    if (field.dataType && !supported.includes(field.dataType)) {
+      problems.push(
+        `${concept} field "${name}" is ${field.dataType}, expected ${supported.join(' or ')}`
+      );
+    }
+  }
+
+  if (problems.length > 0) {
+    const available = fields
+      .filter((f) => f.name)
+      .map((f) => `"${f.name}"`)
+      .join(', ');
+    throw new Error(
+      `Invalid field mapping for project ${project}: ${problems.join('; ')}. ` +
+        `Available fields: ${available}. Configure names with the FIELD_* environment variables.`
+    );
+  }
+}
+
+/**
+ * The project's sprint field: the mapped iteration field, or the first
+ * iteration field on the project when none is mapped
+ */
+export function findIterationField(fields: ProjectV2Field[]): ProjectV2Field | null {
+  const name = getMappedFieldName('iteration');
+  if (name) {
+    return fields.find((f) => f.name?.toLowerCase() === name.toLowerCase()) || null;
+  }
+  return fields.find((f) => f.dataType === 'ITERATION') || null;
+}
+
+/**
+ * Normalise a priority option to its canonical level. Explicit aliases
+ * from FIELD_PRIORITY_VALUES win; otherwise a leading "P<n>" is used, so
+ * "P0 - Critical" and "p0" both become "P0".
+ */
+export function normalizePriority(value: string | null): string | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  const alias = config.fields.priorityValues[trimmed.toLowerCase()];
+  if (alias) {
+    return alias;
+  }
+
+  const level = trimmed.match(/^(p\d+)\b/i);
+  if (level) {
+    return level[1].toUpperCase();
+  }
+
+  return trimmed;
+}
@@ -0,0 +1,122 @@
+import { createSign } from 'crypto';
+import { config } from '../config';
+import { GitHubApiError, GitHubAuthError } from './github-errors';
+import { githubFetch } from './github-http';
+
+// Refresh installation tokens this long before GitHub expires them
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+interface InstallationToken {
+  token: string;
+  expiresAt: Date;
+}
+
+let cachedToken: InstallationToken | null = null;
+let pendingToken: Promise<InstallationToken> | null = null;
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Create a short-lived JWT signed with the GitHub App's private key
+ */
+export function createAppJwt(appId: string, privateKey: string, now: Date = new Date()): string {
+  const issuedAt = Math.floor(now.getTime() / 1000) - 60; // Allow for clock drift
+  const header = { alg: 'RS256', typ: 'JWT' };
+  const payload = {
+    iat: issuedAt,
+    exp: issuedAt + 9 * 60, // GitHub allows at most 10 minutes
+    iss: appId,
+  };
+
+  const unsigned = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+  const signature = createSign('RSA-SHA256').update(unsigned).sign(privateKey);
+
+  return `${unsigned}.${base64url(signature)}`;
+}
+
+/**
+ * Exchange an app JWT for an installation access token
+ */
+async function requestInstallationToken(): Promise<InstallationToken> {
+  const { appId, installationId, privateKey } = config.github.app;
+  if (!appId || !installationId || !privateKey) {
+    throw new GitHubAuthError(
+      'GitHub App auth requires GITHUB_APP_ID, GITHUB_APP_INSTALLATION_ID and a private key'
+    );
+  }
+
+  const jwt = createAppJwt(appId, privateKey);
+  const url = `${config.github.apiUrl}/app/installations/${installationId}/access_tokens`;
+
+  const response = await githubFetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${jwt}`,
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'ghmonitoring',
+    },
+  });
+
+  const body = await response.text();
+
+  if (response.status === 401 || response.status === 403 || response.status === 404) {
+    throw new GitHubAuthError(
+      `Failed to create installation token (${response.status}): ${body}`,
+      response.status
+    );
+  }
+
+  if (!response.ok) {
+    throw new GitHubApiError(
+      `Installation token request failed with status ${response.status}: ${body}`,
+      response.status
+    );
+  }
+
+  const data = JSON.parse(body) as { token: string; expires_at: string };
+  console.log(`✓ Obtained GitHub App installation token (expires ${data.expires_at})`);
+
+  return {
+    token: data.token,
+    expiresAt: new Date(data.expires_at),
+  };
+}
+
+/**
+ * Get a token for GitHub API requests based on the configured auth mode
+ */
+export async function getGitHubToken(): Promise<string> {
+  if (config.github.authType !== 'app') {
+    if (!config.github.token) {
+      throw new GitHubAuthError('GITHUB_TOKEN is not configured');
+    }
+    return config.github.token;
+  }
+
+  if (cachedToken && cachedToken.expiresAt.getTime() - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+    return cachedToken.token;
+  }
+
+  // Share a single in-flight exchange between concurrent callers
+  if (!pendingToken) {
+    pendingToken = requestInstallationToken()
+      .then((token) => {
+        cachedToken = token;
+        return token;
+      })
+      .finally(() => {
+        pendingToken = null;
+      });
+  }
+
+  return (await pendingToken).token;
+}
+
+/**
+ * Drop the cached installation token so the next request fetches a new one
+ */
+export function invalidateGitHubToken(): void {
+  cachedToken = null;
+}
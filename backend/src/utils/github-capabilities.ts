@@ -0,0 +1,168 @@
+import { graphqlRequest } from './github-client';
+
+// Timeline event types that affect a task's state, status or board membership
+export const TIMELINE_ITEM_TYPES = [
+  'CLOSED_EVENT',
+  'REOPENED_EVENT',
+  'MERGED_EVENT',
+  'ADDED_TO_PROJECT_V2_EVENT',
+  'REMOVED_FROM_PROJECT_V2_EVENT',
+  'PROJECT_V2_ITEM_STATUS_CHANGED_EVENT',
+] as const;
+
+export type TimelineItemType = (typeof TIMELINE_ITEM_TYPES)[number];
+
+// Issue timelines have every type except the pull request ones
+const ISSUE_TIMELINE_ITEM_TYPES: TimelineItemType[] = TIMELINE_ITEM_TYPES.filter(
+  (type) => type !== 'MERGED_EVENT'
+);
+const PULL_REQUEST_TIMELINE_ITEM_TYPES: TimelineItemType[] = [...TIMELINE_ITEM_TYPES];
+
+/**
+ * Schema features that older GitHub Enterprise Server versions lack.
+ * Queries leave out what the server does not support.
+ */
+export interface GitHubCapabilities {
+  issueTypes: boolean; // Issue.issueType
+  subIssues: boolean; // Issue.parent and Issue.subIssuesSummary
+  linkedPullRequests: boolean; // Issue.closedByPullRequestsReferences
+  statusChecks: boolean; // Commit.statusCheckRollup
+  issueTimelineItemTypes: TimelineItemType[];
+  pullRequestTimelineItemTypes: TimelineItemType[];
+}
+
+// What github.com supports; assumed until detection has run
+const FULL_SUPPORT: GitHubCapabilities = {
+  issueTypes: true,
+  subIssues: true,
+  linkedPullRequests: true,
+  statusChecks: true,
+  issueTimelineItemTypes: ISSUE_TIMELINE_ITEM_TYPES,
+  pullRequestTimelineItemTypes: PULL_REQUEST_TIMELINE_ITEM_TYPES,
+};
+
+interface TypeFields {
+  fields: Array<{ name: string }> | null;
+}
+
+interface EnumValues {
+  enumValues: Array<{ name: string }> | null;
+}
+
+let capabilities: GitHubCapabilities = FULL_SUPPORT;
+let detection: Promise<GitHubCapabilities> | null = null;
+
+/**
+ * Capabilities of the configured server, as detected so far
+ */
+export function getGitHubCapabilities(): GitHubCapabilities {
+  return capabilities;
+}
+
+/**
+ * Introspect the server's schema for the optional features. Runs once per
+ * process; every project is on the same server. Rejects when the server has
+ * no ProjectV2 support at all.
+ */
+export function detectGitHubCapabilities(): Promise<GitHubCapabilities> {
+  if (!detection) {
+    detection = introspect().then((detected) => {
+      if (detected) {
+        capabilities = detected;
+      } else {
+        detection = null; // Try again on the next initialize
+      }
+      return capabilities;
+    });
+  }
+  return detection;
+}
+
+async function introspect(): Promise<GitHubCapabilities | null> {
+  const query = `
+    query {
+      projectV2: __type(name: "ProjectV2") {
+        name
+      }
+      issue: __type(name: "Issue") {
+        fields {
+          name
+        }
+      }
+      commit: __type(name: "Commit") {
+        fields {
+          name
+        }
+      }
+      issueTimeline: __type(name: "IssueTimelineItemsItemType") {
+        enumValues {
+          name
+        }
+      }
+      pullRequestTimeline: __type(name: "PullRequestTimelineItemsItemType") {
+        enumValues {
+          name
+        }
+      }
+    }
+  `;
+
+  let data: {
+    projectV2: { name: string } | null;
+    issue: TypeFields | null;
+    commit: TypeFields | null;
+    issueTimeline: EnumValues | null;
+    pullRequestTimeline: EnumValues | null;
+  };
+  try {
+    data = await graphqlRequest(query);
+  } catch (error) {
+    // e.g. introspection disabled, or a replayed fixture set recorded without it
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠ Could not detect GitHub API features, assuming full support: ${reason}`);
+    return null;
+  }
+
+  if (!data.projectV2) {
+    throw new Error('This GitHub server does not support Projects (ProjectV2)');
+  }
+
+  const issueFields = new Set((data.issue?.fields || []).map((f) => f.name));
+  const commitFields = new Set((data.commit?.fields || []).map((f) => f.name));
+  const issueEvents = new Set((data.issueTimeline?.enumValues || []).map((v) => v.name));
+  const pullRequestEvents = new Set((data.pullRequestTimeline?.enumValues || []).map((v) => v.name));
+
+  const detected: GitHubCapabilities = {
+    issueTypes: issueFields.has('issueType'),
+    subIssues: issueFields.has('parent') && issueFields.has('subIssuesSummary'),
+    linkedPullRequests: issueFields.has('closedByPullRequestsReferences'),
+    statusChecks: commitFields.has('statusCheckRollup'),
+    issueTimelineItemTypes: ISSUE_TIMELINE_ITEM_TYPES.filter((type) => issueEvents.has(type)),
+    pullRequestTimelineItemTypes: PULL_REQUEST_TIMELINE_ITEM_TYPES.filter((type) =>
+      pullRequestEvents.has(type)
+    ),
+  };
+  logCapabilities(detected);
+  return detected;
+}
+
+function logCapabilities(detected: GitHubCapabilities): void {
+  const missing = [
+    ...(detected.issueTypes ? [] : ['issue types']),
+    ...(detected.subIssues ? [] : ['sub-issues']),
+    ...(detected.linkedPullRequests ? [] : ['linked pull requests']),
+    ...(detected.statusChecks ? [] : ['CI status checks']),
+    ...ISSUE_TIMELINE_ITEM_TYPES.filter((type) => !detected.issueTimelineItemTypes.includes(type)).map(
+      (type) => `${type} issue timeline events`
+    ),
+    ...PULL_REQUEST_TIMELINE_ITEM_TYPES.filter(
+      (type) => !detected.pullRequestTimelineItemTypes.includes(type)
+    ).map((type) => `${type} pull request timeline events`),
+  ];
+
+  if (missing.length === 0) {
+    console.log('✓ GitHub API supports every feature used');
+  } else {
+    console.warn(`⚠ GitHub API does not support ${missing.join(', ')}; these are skipped`);
+  }
+}
@@ -0,0 +1,179 @@
+import { config } from '../config';
+import { getGitHubToken, invalidateGitHubToken } from './github-auth';
+import { rateLimitTracker, RateLimitInfo, backoffDelay, sleep } from './rate-limit';
+import { recordFixture, replayFixture } from './github-fixtures';
+import { githubFetch } from './github-http';
+import {
+  GitHubApiError,
+  GitHubAuthError,
+  GitHubRateLimitError,
+  GitHubGraphQLError,
+  GitHubNetworkError,
+  GraphQLErrorDetail,
+  isTransientError,
+} from './github-errors';
+
+export {
+  GitHubApiError,
+  GitHubAuthError,
+  GitHubRateLimitError,
+  GitHubGraphQLError,
+  GitHubNetworkError,
+} from './github-errors';
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: GraphQLErrorDetail[];
+}
+
+/**
+ * Parse the reset time GitHub sends with rate limited responses
+ */
+function parseRateLimitReset(headers: Headers): Date | null {
+  const reset = headers.get('x-ratelimit-reset');
+  if (reset) {
+    return new Date(parseInt(reset, 10) * 1000);
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    return new Date(Date.now() + parseInt(retryAfter, 10) * 1000);
+  }
+
+  return null;
+}
+
+/**
+ * Send a single GraphQL request without retries
+ */
+async function sendGraphQL<T>(
+  query: string,
+  variables: Record<string, any>
+): Promise<T> {
+  const token = await getGitHubToken();
+
+  let response: Response;
+  let body: string;
+  try {
+    response = await githubFetch(config.github.graphqlUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `bearer ${token}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'ghmonitoring',
+      },
+      body: JSON.stringify({ query, variables }),
+      signal: AbortSignal.timeout(config.github.retry.requestTimeoutMs),
+    });
+    body = await response.text();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new GitHubNetworkError(`GitHub request failed: ${reason}`, error);
+  }
+
+  if (response.status === 401) {
+    invalidateGitHubToken();
+    throw new GitHubAuthError('GitHub rejected the token (401 Unauthorized)', 401);
+  }
+
+  // 403 is used both for missing permissions and for (secondary) rate limits
+  if (response.status === 403 || response.status === 429) {
+    if (response.status === 429 || response.headers.get('x-ratelimit-remaining') === '0' || /rate limit/i.test(body)) {
+      throw new GitHubRateLimitError(
+        `GitHub rate limit exceeded (${response.status})`,
+        response.status,
+        parseRateLimitReset(response.headers)
+      );
+    }
+    throw new GitHubAuthError(`GitHub denied access (403): ${body}`, 403);
+  }
+
+  if (!response.ok) {
+    throw new GitHubApiError(
+      `GitHub API request failed with status ${response.status}: ${body}`,
+      response.status
+    );
+  }
+
+  let parsed: GraphQLResponse<T>;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new GitHubApiError(`Invalid JSON response from GitHub: ${body}`, response.status);
+  }
+
+  if (parsed.errors && parsed.errors.length > 0) {
+    if (parsed.errors.some((e) => e.type === 'RATE_LIMITED')) {
+      throw new GitHubRateLimitError(
+        `GitHub rate limit exceeded: ${parsed.errors.map((e) => e.message).join('; ')}`,
+        response.status,
+        parseRateLimitReset(response.headers)
+      );
+    }
+    throw new GitHubGraphQLError(parsed.errors);
+  }
+
+  if (!parsed.data) {
+    throw new GitHubApiError('GitHub response contained no data', response.status);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * How long to wait before retrying a failed request
+ */
+function retryDelay(error: unknown, attempt: number): number {
+  if (error instanceof GitHubRateLimitError && error.resetAt) {
+    return Math.max(error.resetAt.getTime() - Date.now(), 0) + backoffDelay(0);
+  }
+  return backoffDelay(attempt);
+}
+
+/**
+ * Execute a GraphQL query against the configured GitHub endpoint.
+ * Waits when the point budget runs low and retries transient failures
+ * with jittered exponential backoff. In fixture replay mode the recorded
+ * response is returned without contacting GitHub.
+ */
+export async function graphqlRequest<T>(
+  query: string,
+  variables: Record<string, any> = {}
+): Promise<T> {
+  const { maxRetries, maxRateLimitWaitMs } = config.github.retry;
+  const fixtureMode = config.github.fixtures.mode;
+
+  if (fixtureMode === 'replay') {
+    return replayFixture<T>(query, variables);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    await rateLimitTracker.waitForBudget();
+
+    try {
+      const data = await sendGraphQL<T & { rateLimit?: RateLimitInfo }>(query, variables);
+      if (data.rateLimit) {
+        rateLimitTracker.record(data.rateLimit);
+      }
+      if (fixtureMode === 'record') {
+        recordFixture(query, variables, data);
+      }
+      return data;
+    } catch (error) {
+      if (!isTransientError(error) || attempt >= maxRetries) {
+        throw error;
+      }
+
+      const delay = retryDelay(error, attempt);
+      if (delay > maxRateLimitWaitMs) {
+        throw error;
+      }
+
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(
+        `⚠ GitHub request failed (${reason}), retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1}/${maxRetries})`
+      );
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Base error for failures talking to the GitHub API
+ */
+export class GitHubApiError extends Error {
+  constructor(message: string, public readonly status: number | null = null) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+/**
+ * The token is missing, invalid or lacks the required scopes
+ */
+export class GitHubAuthError extends GitHubApiError {
+  constructor(message: string, status: number | null = null) {
+    super(message, status);
+    this.name = 'GitHubAuthError';
+  }
+}
+
+/**
+ * GitHub refused the request because a rate limit was hit
+ */
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(
+    message: string,
+    status: number | null = null,
+    public readonly resetAt: Date | null = null
+  ) {
+    super(message, status);
+    this.name = 'GitHubRateLimitError';
+  }
+}
+
+export interface GraphQLErrorDetail {
+  message: string;
+  type?: string;
+  path?: Array<string | number>;
+}
+
+/**
+ * The request reached GitHub but the query returned errors
+ */
+export class GitHubGraphQLError extends GitHubApiError {
+  constructor(public readonly errors: GraphQLErrorDetail[]) {
+    super(`GraphQL errors: ${errors.map((e) => e.message).join('; ')}`);
+    this.name = 'GitHubGraphQLError';
+  }
+}
+
+/**
+ * The request never got a response (timeout, connection reset, DNS failure)
+ */
+export class GitHubNetworkError extends GitHubApiError {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'GitHubNetworkError';
+  }
+}
+
+/**
+ * Whether a failed request is worth retrying with backoff
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof GitHubNetworkError || error instanceof GitHubRateLimitError) {
+    return true;
+  }
+  // GitHub reports query timeouts as a generic GraphQL error
+  if (error instanceof GitHubGraphQLError) {
+    return error.errors.some((e) => /timeout|something went wrong/i.test(e.message));
+  }
+  if (error instanceof GitHubApiError) {
+    return error.status === 502 || error.status === 503 || error.status === 504;
+  }
+  return false;
+}
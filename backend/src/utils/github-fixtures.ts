@@ -0,0 +1,71 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { config } from '../config';
+import { GitHubApiError } from './github-errors';
+
+interface Fixture {
+  query: string;
+  variables: Record<string, any>;
+  data: unknown;
+}
+
+/**
+ * JSON with object keys sorted, so equal variables always serialize the same
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fixture file name for a request. Whitespace in the query is ignored so
+ * reformatting a query does not invalidate its recordings.
+ */
+export function fixtureKey(query: string, variables: Record<string, any>): string {
+  const normalized = query.replace(/\s+/g, ' ').trim();
+  return createHash('sha256')
+    .update(normalized)
+    .update('\n')
+    .update(stableStringify(variables))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+function fixturePath(query: string, variables: Record<string, any>): string {
+  return join(resolve(config.github.fixtures.dir), `${fixtureKey(query, variables)}.json`);
+}
+
+/**
+ * Save the response to a request, replacing any earlier recording
+ */
+export function recordFixture(query: string, variables: Record<string, any>, data: unknown): void {
+  const path = fixturePath(query, variables);
+  mkdirSync(resolve(config.github.fixtures.dir), { recursive: true });
+
+  const fixture: Fixture = { query, variables, data };
+  writeFileSync(path, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+/**
+ * Load the recorded response to a request
+ */
+export function replayFixture<T>(query: string, variables: Record<string, any>): T {
+  const path = fixturePath(query, variables);
+  if (!existsSync(path)) {
+    throw new GitHubApiError(
+      `No recorded GitHub response for this request (expected ${path}); record it with GITHUB_FIXTURE_MODE=record`
+    );
+  }
+
+  const fixture = JSON.parse(readFileSync(path, 'utf-8')) as Fixture;
+  return fixture.data as T;
+}
@@ -0,0 +1,50 @@
+import { resolveAssigneeChange } from './github-graphql';
+import { graphqlRequest } from './github-client';
+import { GitHubGraphQLError } from './github-errors';
+
+jest.mock('./github-client');
+const mockedRequest = graphqlRequest as jest.MockedFunction<typeof graphqlRequest>;
+
+describe('resolveAssigneeChange', () => {
+  beforeEach(() => {
+    mockedRequest.mockReset();
+    // The item's issue, currently assigned to alice
+    mockedRequest.mockImplementation(async (query: string) => {
+      if (!query.includes('user(login')) {
+        return {
+          node: {
+            content: { __typename: 'Issue', id: 'I_acme_api_1', assignees: { nodes: [{ login: 'alice', name: null }] } },
+          },
+        } as any;
+      }
+      // GitHub's answer when the second login (alias u1) does not exist
+      throw new GitHubGraphQLError([
+        { type: 'NOT_FOUND', path: ['u1'], message: "Could not resolve to a User with the login of 'ghost'." },
+      ]);
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('names the logins GitHub does not know', async () => {
+    await expect(resolveAssigneeChange('PVTI_1', ['alice', 'bob', 'ghost'])).rejects.toThrow(
+      'Unknown GitHub user(s): ghost'
+    );
+  });
+
+  it('passes on other GraphQL errors', async () => {
+    mockedRequest.mockImplementation(async (query: string) => {
+      if (!query.includes('user(login')) {
+        return {
+          node: { content: { __typename: 'Issue', id: 'I_acme_api_1', assignees: { nodes: [] } } },
+        } as any;
+      }
+      throw new GitHubGraphQLError([{ type: 'FORBIDDEN', path: ['u0'], message: 'Resource not accessible' }]);
+    });
+
+    await expect(resolveAssigneeChange('PVTI_1', ['bob'])).rejects.toBeInstanceOf(GitHubGraphQLError);
+  });
+});
@@ -1,45 +1,289 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { graphqlRequest } from './github-client';
+import { GitHubGraphQLError } from './github-errors';
+import { getGitHubCapabilities, TimelineItemType } from './github-capabilities';
 import {
+  PageInfo,
   ProjectV2,
+  ProjectV2Field,
   ProjectV2FieldsResponse,
   ProjectV2Item,
+  ProjectV2ItemFieldValue,
+  ProjectV2ItemSummary,
+  GitHubAssignees,
+  GitHubLabels,
+  ProjectV2ItemTimeline,
+  ProjectV2FieldValueInput,
+  AssigneeChange,
+  LabelChange,
+  TimelineEvent,
 } from '../types/github';
 
-const execAsync = promisify(exec);
+// Requested with every query so the client can track the point budget
+const RATE_LIMIT_FRAGMENT = `
+  rateLimit {
+    cost
+    remaining
+    resetAt
+  }
+`;
 
-/**
- * Execute a GraphQL query using gh CLI
- */
-async function executeGraphQL<T>(
-  query: string,
-  variables: Record<string, any> = {}
-): Promise<T> {
-  const variableArgs = Object.entries(variables)
-    .map(([key, value]) => {
-      if (typeof value === 'string') {
-        return `-F ${key}="${value}"`;
+const PAGE_INFO = `
+  pageInfo {
+    hasNextPage
+    endCursor
+  }
+`;
+
+// Page sizes for connections nested inside each project item. Items with
+// more are completed with follow-up queries.
+const FIELD_VALUES_PAGE_SIZE = 20;
+const ASSIGNEES_PAGE_SIZE = 10;
+const LABELS_PAGE_SIZE = 20;
+const FIELDS_PAGE_SIZE = 20;
+// Requested reviewers beyond this are not stored
+const REVIEW_REQUESTS_PAGE_SIZE = 20;
+// Pull requests linked to close an issue beyond this are not stored
+const LINKED_PULL_REQUESTS_PAGE_SIZE = 10;
+// Page size for the follow-up queries
+const FOLLOW_UP_PAGE_SIZE = 100;
+
+// Items per timeline query; each brings up to FOLLOW_UP_PAGE_SIZE events
+const TIMELINE_BATCH_SIZE = 20;
+
+// Selection set for a single project field value
+const FIELD_VALUE_FIELDS = `
+  __typename
+  ... on ProjectV2ItemFieldTextValue {
+    text
+    field {
+      ... on ProjectV2Field {
+        name
       }
-      return `-F ${key}=${value}`;
-    })
-    .join(' ');
+    }
+  }
+  ... on ProjectV2ItemFieldDateValue {
+    date
+    field {
+      ... on ProjectV2Field {
+        name
+      }
+    }
+  }
+  ... on ProjectV2ItemFieldSingleSelectValue {
+    name
+    field {
+      ... on ProjectV2SingleSelectField {
+        name
+      }
+    }
+  }
+  ... on ProjectV2ItemFieldNumberValue {
+    number
+    field {
+      ... on ProjectV2Field {
+        name
+      }
+    }
+  }
+  ... on ProjectV2ItemFieldIterationValue {
+    title
+    startDate
+    duration
+    iterationId
+    field {
+      ... on ProjectV2IterationField {
+        name
+      }
+    }
+  }
+`;
 
-  const command = `gh api graphql -f query='${query.replace(/'/g, "\\'")}' ${variableArgs}`;
+const ASSIGNEE_FIELDS = `
+  login
+  name
+`;
 
-  try {
-    const { stdout, stderr } = await execAsync(command);
+// Labels, milestone and author, shared by issues and pull requests
+const ISSUE_METADATA_FIELDS = `
+  labels(first: ${LABELS_PAGE_SIZE}) {
+    ${PAGE_INFO}
+    nodes {
+      name
+    }
+  }
+  milestone {
+    title
+  }
+  author {
+    login
+  }
+  closedAt
+`;
+
+// Issue and pull request fields that older GitHub Enterprise Server
+// versions do not have
+const ISSUE_TYPE_FIELDS = `
+  issueType {
+    name
+  }
+`;
 
-    if (stderr) {
-      console.error('GraphQL stderr:', stderr);
+const SUB_ISSUE_FIELDS = `
+  parent {
+    number
+    repository {
+      nameWithOwner
     }
+  }
+  subIssuesSummary {
+    total
+    completed
+  }
+`;
 
-    const response = JSON.parse(stdout);
+const LINKED_PULL_REQUEST_FIELDS = `
+  closedByPullRequestsReferences(first: ${LINKED_PULL_REQUESTS_PAGE_SIZE}, includeClosedPrs: true) {
+    nodes {
+      number
+      state
+      isDraft
+      url
+      repository {
+        nameWithOwner
+      }
+    }
+  }
+`;
 
-    if (response.errors) {
-      throw new Error(`GraphQL errors: ${JSON.stringify(response.errors)}`);
+// CI state of the head commit
+const STATUS_CHECK_FIELDS = `
+  commits(last: 1) {
+    nodes {
+      commit {
+        statusCheckRollup {
+          state
+        }
+      }
     }
+  }
+`;
+
+/**
+ * Selection set for a ProjectV2Item, shared by the paged and by-ID queries.
+ * Leaves out fields the server does not support.
+ */
+function projectItemFields(): string {
+  const { issueTypes, subIssues, linkedPullRequests, statusChecks } = getGitHubCapabilities();
 
-    return response.data;
+  return `
+  id
+  createdAt
+  updatedAt
+  fieldValues(first: ${FIELD_VALUES_PAGE_SIZE}) {
+    ${PAGE_INFO}
+    nodes {
+      ${FIELD_VALUE_FIELDS}
+    }
+  }
+  content {
+    __typename
+    ... on Issue {
+      id
+      title
+      number
+      state
+      assignees(first: ${ASSIGNEES_PAGE_SIZE}) {
+        ${PAGE_INFO}
+        nodes {
+          ${ASSIGNEE_FIELDS}
+        }
+      }
+      ${ISSUE_METADATA_FIELDS}
+      ${issueTypes ? ISSUE_TYPE_FIELDS : ''}
+      ${subIssues ? SUB_ISSUE_FIELDS : ''}
+      ${linkedPullRequests ? LINKED_PULL_REQUEST_FIELDS : ''}
+      createdAt
+      updatedAt
+      repository {
+        name
+        nameWithOwner
+      }
+    }
+    ... on PullRequest {
+      id
+      title
+      number
+      state
+      assignees(first: ${ASSIGNEES_PAGE_SIZE}) {
+        ${PAGE_INFO}
+        nodes {
+          ${ASSIGNEE_FIELDS}
+        }
+      }
+      ${ISSUE_METADATA_FIELDS}
+      mergedAt
+      isDraft
+      reviewDecision
+      mergeable
+      reviewRequests(first: ${REVIEW_REQUESTS_PAGE_SIZE}) {
+        nodes {
+          requestedReviewer {
+            __typename
+            ... on User {
+              login
+            }
+            ... on Mannequin {
+              login
+            }
+            ... on Team {
+              combinedSlug
+            }
+          }
+        }
+      }
+      reviews(first: 1) {
+        totalCount
+        nodes {
+          submittedAt
+        }
+      }
+      ${statusChecks ? STATUS_CHECK_FIELDS : ''}
+      createdAt
+      updatedAt
+      repository {
+        name
+        nameWithOwner
+      }
+    }
+    ... on DraftIssue {
+      id
+      title
+      body
+      assignees(first: ${ASSIGNEES_PAGE_SIZE}) {
+        ${PAGE_INFO}
+        nodes {
+          ${ASSIGNEE_FIELDS}
+        }
+      }
+      creator {
+        login
+      }
+      createdAt
+      updatedAt
+    }
+  }
+`;
+}
+
+/**
+ * Execute a GraphQL query against the GitHub API
+ */
+async function executeGraphQL<T>(
+  query: string,
+  variables: Record<string, any> = {}
+): Promise<T> {
+  try {
+    return await graphqlRequest<T>(query, variables);
   } catch (error) {
     console.error('GraphQL execution error:', error);
     throw error;
@@ -47,12 +291,12 @@ async function executeGraphQL<T>(
 }
 
 /**
- * Get the Project V2 node ID
+ * Get the Project V2 node ID and title
  */
 export async function getProjectNodeId(
   org: string,
   projectNumber: number
-): Promise<string> {
+): Promise<{ id: string; title: string }> {
   const query = `
     query($org: String!, $num: Int!) {
       organization(login: $org) {
@@ -61,6 +305,7 @@ export async function getProjectNodeId(
           title
         }
       }
+      ${RATE_LIMIT_FRAGMENT}
     }
   `;
 
@@ -74,7 +319,7 @@ export async function getProjectNodeId(
 
   console.log(`Found project: ${data.organization.projectV2.title} (ID: ${data.organization.projectV2.id})`);
 
-  return data.organization.projectV2.id;
+  return data.organization.projectV2;
 }
 
 /**
@@ -84,10 +329,11 @@ export async function getProjectFields(
   projectId: string
 ): Promise<ProjectV2FieldsResponse> {
   const query = `
-    query($projectId: ID!) {
+    query($projectId: ID!, $after: String) {
       node(id: $projectId) {
         ... on ProjectV2 {
-          fields(first: 20) {
+          fields(first: ${FIELDS_PAGE_SIZE}, after: $after) {
+            ${PAGE_INFO}
             nodes {
               ... on ProjectV2Field {
                 id
@@ -97,6 +343,7 @@ export async function getProjectFields(
               ... on ProjectV2SingleSelectField {
                 id
                 name
+                dataType
                 options {
                   id
                   name
@@ -105,9 +352,17 @@ export async function getProjectFields(
               ... on ProjectV2IterationField {
                 id
                 name
+                dataType
                 configuration {
                   iterations {
                     id
+                    title
+                    startDate
+                    duration
+                  }
+                  completedIterations {
+                    id
+                    title
                     startDate
                     duration
                   }
@@ -117,15 +372,31 @@ export async function getProjectFields(
           }
         }
       }
+      ${RATE_LIMIT_FRAGMENT}
     }
   `;
 
-  const data = await executeGraphQL<{ node: ProjectV2FieldsResponse }>(
-    query,
-    { projectId }
-  );
+  const fields: ProjectV2Field[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  while (hasNextPage) {
+    const data: { node: ProjectV2FieldsResponse } = await executeGraphQL<{
+      node: ProjectV2FieldsResponse;
+    }>(query, { projectId, after: cursor });
+    fields.push(...data.node.fields.nodes);
 
-  return data.node;
+    hasNextPage = data.node.fields.pageInfo?.hasNextPage ?? false;
+    cursor = data.node.fields.pageInfo?.endCursor ?? null;
+
+    if (hasNextPage) {
+      console.warn(
+        `⚠ Project has more than ${fields.length} fields, fetching the next page`
+      );
+    }
+  }
+
+  return { fields: { nodes: fields } };
 }
 
 /**
@@ -148,95 +419,18 @@ export async function fetchProjectItems(
               endCursor
             }
             nodes {
-              id
-              fieldValues(first: 20) {
-                nodes {
-                  __typename
-                  ... on ProjectV2ItemFieldTextValue {
-                    text
-                    field {
-                      ... on ProjectV2Field {
-                        name
-                      }
-                    }
-                  }
-                  ... on ProjectV2ItemFieldDateValue {
-                    date
-                    field {
-                      ... on ProjectV2Field {
-                        name
-                      }
-                    }
-                  }
-                  ... on ProjectV2ItemFieldSingleSelectValue {
-                    name
-                    field {
-                      ... on ProjectV2SingleSelectField {
-                        name
-                      }
-                    }
-                  }
-                  ... on ProjectV2ItemFieldNumberValue {
-                    number
-                    field {
-                      ... on ProjectV2Field {
-                        name
-                      }
-                    }
-                  }
-                }
-              }
-              content {
-                __typename
-                ... on Issue {
-                  title
-                  number
-                  state
-                  assignees(first: 10) {
-                    nodes {
-                      login
-                      name
-                    }
-                  }
-                  createdAt
-                  updatedAt
-                  repository {
-                    name
-                    nameWithOwner
-                  }
-                }
-                ... on PullRequest {
-                  title
-                  number
-                  state
-                  assignees(first: 10) {
-                    nodes {
-                      login
-                      name
-                    }
-                  }
-                  createdAt
-                  updatedAt
-                  repository {
-                    name
-                    nameWithOwner
-                  }
-                }
-                ... on DraftIssue {
-                  title
-                  body
-                }
-              }
+              ${projectItemFields()}
             }
           }
         }
       }
+      ${RATE_LIMIT_FRAGMENT}
     }
   `;
 
   const data = await executeGraphQL<{ node: ProjectV2 }>(query, {
     projectId,
-    after: after || 'null',
+    after,
   });
 
   return data.node;
@@ -265,3 +459,715 @@ export async function fetchAllProjectItems(
   console.log(`Total items fetched: ${allItems.length}`);
   return allItems;
 }
+
+/**
+ * Fetch a page of lightweight item summaries (IDs and update times only)
+ */
+export async function fetchProjectItemSummaries(
+  projectId: string,
+  after: string | null = null
+): Promise<{
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: ProjectV2ItemSummary[];
+}> {
+  const query = `
+    query($projectId: ID!, $after: String) {
+      node(id: $projectId) {
+        ... on ProjectV2 {
+          items(first: 100, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+              createdAt
+              updatedAt
+              content {
+                __typename
+                ... on Issue {
+                  updatedAt
+                }
+                ... on PullRequest {
+                  updatedAt
+                  state
+                }
+                ... on DraftIssue {
+                  updatedAt
+                }
+              }
+            }
+          }
+        }
+      }
+      ${RATE_LIMIT_FRAGMENT}
+    }
+  `;
+
+  const data = await executeGraphQL<{
+    node: { items: Awaited<ReturnType<typeof fetchProjectItemSummaries>> };
+  }>(query, { projectId, after });
+
+  return data.node.items;
+}
+
+/**
+ * Fetch summaries for every item in the project
+ */
+export async function fetchAllProjectItemSummaries(
+  projectId: string
+): Promise<ProjectV2ItemSummary[]> {
+  const allSummaries: ProjectV2ItemSummary[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  while (hasNextPage) {
+    const page = await fetchProjectItemSummaries(projectId, cursor);
+    allSummaries.push(...page.nodes);
+
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+  }
+
+  console.log(`Listed ${allSummaries.length} project items`);
+  return allSummaries;
+}
+
+/**
+ * Fetch full details for specific project items
+ */
+export async function fetchProjectItemsByIds(
+  itemIds: string[]
+): Promise<ProjectV2Item[]> {
+  const query = `
+    query($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on ProjectV2Item {
+          ${projectItemFields()}
+          isArchived
+        }
+      }
+      ${RATE_LIMIT_FRAGMENT}
+    }
+  `;
+
+  const items: ProjectV2Item[] = [];
+  const batchSize = 50;
+
+  for (let i = 0; i < itemIds.length; i += batchSize) {
+    const batch = itemIds.slice(i, i + batchSize);
+    const data = await executeGraphQL<{ nodes: Array<ProjectV2Item | null> }>(
+      query,
+      { ids: batch }
+    );
+    // Items deleted since they were listed come back as null. Archived items
+    // are left out, as they are from the board's item list.
+    items.push(
+      ...data.nodes.filter((node): node is ProjectV2Item => node !== null && !node.isArchived)
+    );
+  }
+
+  console.log(`Fetched details for ${items.length} items`);
+  return items;
+}
+
+/**
+ * Fetch the remaining pages of a connection on a single node, starting
+ * after `after`
+ */
+async function fetchRemainingPages<T>(
+  query: string,
+  id: string,
+  after: string | null,
+  getConnection: (node: any) => { pageInfo: PageInfo; nodes: T[] } | undefined
+): Promise<T[]> {
+  const results: T[] = [];
+  let hasNextPage = true;
+  let cursor = after;
+
+  while (hasNextPage) {
+    const data = await executeGraphQL<{ node: any }>(query, { id, after: cursor });
+    const connection = data.node ? getConnection(data.node) : undefined;
+    if (!connection) break; // Node deleted since the first page
+
+    results.push(...connection.nodes);
+    hasNextPage = connection.pageInfo.hasNextPage;
+    cursor = connection.pageInfo.endCursor;
+  }
+
+  return results;
+}
+
+/**
+ * Items whose nested connections had more than one page
+ */
+export interface NestedPaginationCounts {
+  items: number; // Items with any connection cut off
+  fieldValues: number;
+  assignees: number;
+  labels: number;
+}
+
+/**
+ * Fetch the rest of any field values, assignees or labels cut off by the nested
+ * page sizes, in place. Returns how many items needed follow-up queries.
+ */
+export async function completeNestedConnections(
+  items: ProjectV2Item[]
+): Promise<NestedPaginationCounts> {
+  const fieldValuesQuery = `
+    query($id: ID!, $after: String) {
+      node(id: $id) {
+        ... on ProjectV2Item {
+          fieldValues(first: ${FOLLOW_UP_PAGE_SIZE}, after: $after) {
+            ${PAGE_INFO}
+            nodes {
+              ${FIELD_VALUE_FIELDS}
+            }
+          }
+        }
+      }
+      ${RATE_LIMIT_FRAGMENT}
+    }
+  `;
+
+  const assigneesConnection = `
+    assignees(first: ${FOLLOW_UP_PAGE_SIZE}, after: $after) {
+      ${PAGE_INFO}
+      nodes {
+        ${ASSIGNEE_FIELDS}
+      }
+    }
+  `;
+  const assigneesQuery = `
+    query($id: ID!, $after: String) {
+      node(id: $id) {
+        ... on Issue {
+          ${assigneesConnection}
+        }
+        ... on PullRequest {
+          ${assigneesConnection}
+        }
+        ... on DraftIssue {
+          ${assigneesConnection}
+        }
+      }
+      ${RATE_LIMIT_FRAGMENT}
+    }
+  `;
+
+  const labelsConnection = `
+    labels(first: ${FOLLOW_UP_PAGE_SIZE}, after: $after) {
+      ${PAGE_INFO}
+      nodes {
+        name
+      }
+    }
+  `;
+  const labelsQuery = `
+    query($id: ID!, $after: String) {
+      node(id: $id) {
+        ... on Issue {
+          ${labelsConnection}
+        }
+        ... on PullRequest {
+          ${labelsConnection}
+        }
+      }
+      ${RATE_LIMIT_FRAGMENT}
+    }
+  `;
+
+  const counts: NestedPaginationCounts = { items: 0, fieldValues: 0, assignees: 0, labels: 0 };
+
+  for (const item of items) {
+    let truncated = false;
+
+    const fieldValuesPage = item.fieldValues.pageInfo;
+    if (fieldValuesPage?.hasNextPage) {
+      truncated = true;
+      counts.fieldValues++;
+      const rest = await fetchRemainingPages<ProjectV2ItemFieldValue>(
+        fieldValuesQuery,
+        item.id,
+        fieldValuesPage.endCursor,
+        (node) => node.fieldValues
+      );
+      item.fieldValues.nodes.push(...rest);
+      item.fieldValues.pageInfo = { hasNextPage: false, endCursor: null };
+    }
+
+    const content = item.content as {
+      id?: string;
+      assignees?: GitHubAssignees;
+      labels?: GitHubLabels;
+    } | null;
+    const assigneesPage = content?.assignees?.pageInfo;
+    if (content?.id && assigneesPage?.hasNextPage) {
+      truncated = true;
+      counts.assignees++;
+      const rest = await fetchRemainingPages<GitHubAssignees['nodes'][number]>(
+        assigneesQuery,
+        content.id,
+        assigneesPage.endCursor,
+        (node) => node.assignees
+      );
+      content.assignees!.nodes.push(...rest);
+      content.assignees!.pageInfo = { hasNextPage: false, endCursor: null };
+    }
+
+    const labelsPage = content?.labels?.pageInfo;
+    if (content?.id && labelsPage?.hasNextPage) {
+      truncated = true;
+      counts.labels++;
+      const rest = await fetchRemainingPages<GitHubLabels['nodes'][number]>(
+        labelsQuery,
+        content.id,
+        labelsPage.endCursor,
+        (node) => node.labels
+      );
+      content.labels!.nodes.push(...rest);
+      content.labels!.pageInfo = { hasNextPage: false, endCursor: null };
+    }
+
+    if (truncated) {
+      counts.items++;
+    }
+  }
+
+  return counts;
+}
+
+// Selection for each timeline event type; types the server does not know
+// are left out of the query altogether
+const TIMELINE_EVENT_FIELDS: Record<TimelineItemType, string> = {
+  CLOSED_EVENT: `
+    ... on ClosedEvent {
+      createdAt
+    }
+  `,
+  REOPENED_EVENT: `
+    ... on ReopenedEvent {
+      createdAt
+    }
+  `,
+  MERGED_EVENT: `
+    ... on MergedEvent {
+      createdAt
+    }
+  `,
+  ADDED_TO_PROJECT_V2_EVENT: `
+    ... on AddedToProjectV2Event {
+      createdAt
+      project {
+        id
+      }
+    }
+  `,
+  REMOVED_FROM_PROJECT_V2_EVENT: `
+    ... on RemovedFromProjectV2Event {
+      createdAt
+      project {
+        id
+      }
+    }
+  `,
+  PROJECT_V2_ITEM_STATUS_CHANGED_EVENT: `
+    ... on ProjectV2ItemStatusChangedEvent {
+      createdAt
+      project {
+        id
+      }
+      previousStatus
+      status
+    }
+  `,
+};
+
+/**
+ * Timeline connection for the event types that affect a task's state,
+ * status or board membership, as far as the server supports them for the
+ * content type
+ */
+function timelineItems(content: 'Issue' | 'PullRequest'): string {
+  const capabilities = getGitHubCapabilities();
+  const itemTypes =
+    content === 'Issue' ? capabilities.issueTimelineItemTypes : capabilities.pullRequestTimelineItemTypes;
+
+  return `
+  timelineItems(
+    first: ${FOLLOW_UP_PAGE_SIZE}
+    after: $after
+    itemTypes: [${itemTypes.join(' ')}]
+  ) {
+    ${PAGE_INFO}
+    nodes {
+      __typename
+      ${itemTypes.map((type) => TIMELINE_EVENT_FIELDS[type]).join('')}
+    }
+  }
+`;
+}
+
+/**
+ * Fetch the timeline events of the issues and PRs behind project items.
+ * Drafts have no timeline and come back with empty content.
+ */
+export async function fetchItemTimelines(
+  itemIds: string[]
+): Promise<ProjectV2ItemTimeline[]> {
+  const query = `
+    query($ids: [ID!]!, $after: String) {
+      nodes(ids: $ids) {
+        ... on ProjectV2Item {
+          id
+          content {
+            __typename
+            ... on Issue {
+              id
+              ${timelineItems('Issue')}
+            }
+            ... on PullRequest {
+              id
+              ${timelineItems('PullRequest')}
+            }
+          }
+        }
+      }
+      ${RATE_LIMIT_FRAGMENT}
+    }
+  `;
+
+  const followUpQuery = `
+    query($id: ID!, $after: String) {
+      node(id: $id) {
+        ... on Issue {
+          ${timelineItems('Issue')}
+        }
+        ... on PullRequest {
+          ${timelineItems('PullRequest')}
+        }
+      }
+      ${RATE_LIMIT_FRAGMENT}
+    }
+  `;
+
+  const timelines: ProjectV2ItemTimeline[] = [];
+
+  for (let i = 0; i < itemIds.length; i += TIMELINE_BATCH_SIZE) {
+    const batch = itemIds.slice(i, i + TIMELINE_BATCH_SIZE);
+    const data = await executeGraphQL<{ nodes: Array<ProjectV2ItemTimeline | null> }>(
+      query,
+      { ids: batch, after: null }
+    );
+
+    for (const item of data.nodes) {
+      if (!item) continue;
+
+      const timeline = item.content?.timelineItems;
+      if (item.content?.id && timeline?.pageInfo.hasNextPage) {
+        const rest = await fetchRemainingPages<TimelineEvent>(
+          followUpQuery,
+          item.content.id,
+          timeline.pageInfo.endCursor,
+          (node) => node.timelineItems
+        );
+        timeline.nodes.push(...rest);
+        timeline.pageInfo = { hasNextPage: false, endCursor: null };
+      }
+
+      timelines.push(item);
+    }
+  }
+
+  console.log(`Fetched timelines for ${timelines.length} items`);
+  return timelines;
+}
+
+/**
+ * Set a project field on an item, or clear it when `value` is null
+ */
+export async function updateProjectItemField(
+  projectId: string,
+  itemId: string,
+  fieldId: string,
+  value: ProjectV2FieldValueInput | null
+): Promise<void> {
+  if (value === null) {
+    const mutation = `
+      mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!) {
+        clearProjectV2ItemFieldValue(input: { projectId: $projectId, itemId: $itemId, fieldId: $fieldId }) {
+          projectV2Item {
+            id
+          }
+        }
+      }
+    `;
+    await executeGraphQL(mutation, { projectId, itemId, fieldId });
+    return;
+  }
+
+  const mutation = `
+    mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: ProjectV2FieldValue!) {
+      updateProjectV2ItemFieldValue(
+        input: { projectId: $projectId, itemId: $itemId, fieldId: $fieldId, value: $value }
+      ) {
+        projectV2Item {
+          id
+        }
+      }
+    }
+  `;
+  await executeGraphQL(mutation, { projectId, itemId, fieldId, value });
+}
+
+/**
+ * Work out the mutations that replace the assignees of a project item's
+ * issue, pull request or draft issue, without changing anything yet.
+ * Returns null if the item no longer exists; throws naming any login that
+ * does not exist.
+ */
+export async function resolveAssigneeChange(itemId: string, logins: string[]): Promise<AssigneeChange | null> {
+  const contentQuery = `
+    query($itemId: ID!) {
+      node(id: $itemId) {
+        ... on ProjectV2Item {
+          content {
+            __typename
+            ... on Issue {
+              id
+              assignees(first: ${FOLLOW_UP_PAGE_SIZE}) {
+                nodes {
+                  ${ASSIGNEE_FIELDS}
+                }
+              }
+            }
+            ... on PullRequest {
+              id
+              assignees(first: ${FOLLOW_UP_PAGE_SIZE}) {
+                nodes {
+                  ${ASSIGNEE_FIELDS}
+                }
+              }
+            }
+            ... on DraftIssue {
+              id
+              assignees(first: ${FOLLOW_UP_PAGE_SIZE}) {
+                nodes {
+                  ${ASSIGNEE_FIELDS}
+                }
+              }
+            }
+          }
+        }
+      }
+      ${RATE_LIMIT_FRAGMENT}
+    }
+  `;
+
+  const data = await executeGraphQL<{
+    node: { content: { __typename: string; id: string; assignees: GitHubAssignees } | null } | null;
+  }>(contentQuery, { itemId });
+
+  const content = data.node?.content;
+  if (!content) {
+    return null;
+  }
+
+  const current = content.assignees.nodes.map((a) => a.login);
+  const wanted = new Set(logins.map((login) => login.toLowerCase()));
+  const toAdd = logins.filter((login) => !current.some((c) => c.toLowerCase() === login.toLowerCase()));
+  const toRemove = current.filter((login) => !wanted.has(login.toLowerCase()));
+  const draft = content.__typename === 'DraftIssue';
+
+  return {
+    contentId: content.id,
+    draft,
+    assigneeIds: draft ? await getUserIds(logins) : [],
+    addIds: draft ? [] : await getUserIds(toAdd),
+    removeIds: draft ? [] : await getUserIds(toRemove),
+  };
+}
+
+/**
+ * Apply assignee mutations worked out by resolveAssigneeChange
+ */
+export async function applyAssigneeChange(change: AssigneeChange): Promise<void> {
+  if (change.draft) {
+    // Draft issues take the full list instead of additions and removals
+    const mutation = `
+      mutation($draftIssueId: ID!, $assigneeIds: [ID!]) {
+        updateProjectV2DraftIssue(input: { draftIssueId: $draftIssueId, assigneeIds: $assigneeIds }) {
+          draftIssue {
+            id
+          }
+        }
+      }
+    `;
+    await executeGraphQL(mutation, { draftIssueId: change.contentId, assigneeIds: change.assigneeIds });
+    return;
+  }
+
+  if (change.addIds.length > 0) {
+    const mutation = `
+      mutation($assignableId: ID!, $assigneeIds: [ID!]!) {
+        addAssigneesToAssignable(input: { assignableId: $assignableId, assigneeIds: $assigneeIds }) {
+          clientMutationId
+        }
+      }
+    `;
+    await executeGraphQL(mutation, { assignableId: change.contentId, assigneeIds: change.addIds });
+  }
+
+  if (change.removeIds.length > 0) {
+    const mutation = `
+      mutation($assignableId: ID!, $assigneeIds: [ID!]!) {
+        removeAssigneesFromAssignable(input: { assignableId: $assignableId, assigneeIds: $assigneeIds }) {
+          clientMutationId
+        }
+      }
+    `;
+    await executeGraphQL(mutation, { assignableId: change.contentId, assigneeIds: change.removeIds });
+  }
+}
+
+/**
+ * Look up user node IDs by login. Throws naming any login that does not exist.
+ */
+async function getUserIds(logins: string[]): Promise<string[]> {
+  if (logins.length === 0) {
+    return [];
+  }
+
+  // One aliased field per login, e.g. u0: user(login: $l0) { id }
+  const query = `
+    query(${logins.map((_, i) => `$l${i}: String!`).join(', ')}) {
+      ${logins.map((_, i) => `u${i}: user(login: $l${i}) { id }`).join('\n      ')}
+    }
+  `;
+  const variables = Object.fromEntries(logins.map((login, i) => [`l${i}`, login]));
+
+  let data: Record<string, { id: string } | null>;
+  try {
+    data = await executeGraphQL<Record<string, { id: string } | null>>(query, variables);
+  } catch (error) {
+    // GitHub answers an unknown login with a NOT_FOUND error at its alias
+    if (!(error instanceof GitHubGraphQLError)) throw error;
+    const notFound = new Set(
+      error.errors.filter((e) => e.type === 'NOT_FOUND').map((e) => String(e.path?.[0]))
+    );
+    const unknown = logins.filter((_, i) => notFound.has(`u${i}`));
+    if (unknown.length === 0) throw error;
+    throw new Error(`Unknown GitHub user(s): ${unknown.join(', ')}`);
+  }
+
+  const missing = logins.filter((_, i) => !data[`u${i}`]);
+  if (missing.length > 0) {
+    throw new Error(`Unknown GitHub user(s): ${missing.join(', ')}`);
+  }
+
+  return logins.map((_, i) => data[`u${i}`]!.id);
+}
+
+/**
+ * Work out the mutations that add and remove labels, by name, on a project
+ * item's issue or pull request, without changing anything yet. Returns null
+ * if the item no longer exists; throws naming any label the repository does
+ * not have.
+ */
+export async function resolveLabelChange(
+  itemId: string,
+  add: string[],
+  remove: string[]
+): Promise<LabelChange | null> {
+  const names = [...add, ...remove];
+  // One aliased label lookup per name, e.g. l0: label(name: $n0) { id }
+  const labelFields = `
+    repository {
+      nameWithOwner
+      ${names.map((_, i) => `l${i}: label(name: $n${i}) { id }`).join('\n      ')}
+    }
+  `;
+  const contentQuery = `
+    query($itemId: ID!${names.map((_, i) => `, $n${i}: String!`).join('')}) {
+      node(id: $itemId) {
+        ... on ProjectV2Item {
+          content {
+            __typename
+            ... on Issue {
+              id
+              ${labelFields}
+            }
+            ... on PullRequest {
+              id
+              ${labelFields}
+            }
+          }
+        }
+      }
+      ${RATE_LIMIT_FRAGMENT}
+    }
+  `;
+  const variables = Object.fromEntries([
+    ['itemId', itemId],
+    ...names.map((name, i) => [`n${i}`, name]),
+  ]);
+
+  const data = await executeGraphQL<{
+    node: {
+      content: {
+        __typename: string;
+        id?: string;
+        repository?: Record<string, any> & { nameWithOwner: string };
+      } | null;
+    } | null;
+  }>(contentQuery, variables);
+
+  const content = data.node?.content;
+  if (!content) {
+    return null;
+  }
+  if (!content.id || !content.repository) {
+    throw new Error('Draft issues have no labels');
+  }
+
+  const repository = content.repository;
+  const missing = names.filter((_, i) => !repository[`l${i}`]);
+  if (missing.length > 0) {
+    throw new Error(`Unknown label(s) in ${repository.nameWithOwner}: ${missing.join(', ')}`);
+  }
+  const labelIds = names.map((_, i) => repository[`l${i}`].id as string);
+
+  return {
+    contentId: content.id,
+    addIds: labelIds.slice(0, add.length),
+    removeIds: labelIds.slice(add.length),
+  };
+}
+
+/**
+ * Apply label mutations worked out by resolveLabelChange
+ */
+export async function applyLabelChange(change: LabelChange): Promise<void> {
+  if (change.addIds.length > 0) {
+    const mutation = `
+      mutation($labelableId: ID!, $labelIds: [ID!]!) {
+        addLabelsToLabelable(input: { labelableId: $labelableId, labelIds: $labelIds }) {
+          clientMutationId
+        }
+      }
+    `;
+    await executeGraphQL(mutation, { labelableId: change.contentId, labelIds: change.addIds });
+  }
+
+  if (change.removeIds.length > 0) {
+    const mutation = `
+      mutation($labelableId: ID!, $labelIds: [ID!]!) {
+        removeLabelsFromLabelable(input: { labelableId: $labelableId, labelIds: $labelIds }) {
+          clientMutationId
+        }
+      }
+    `;
+    await executeGraphQL(mutation, { labelableId: change.contentId, labelIds: change.removeIds });
+  }
+}
@@ -0,0 +1,63 @@
+import { Agent, request } from 'https';
+import { rootCertificates } from 'tls';
+import { config } from '../config';
+
+interface GitHubRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+let caAgent: Agent | null = null;
+
+/**
+ * HTTPS agent trusting the default CAs plus the configured bundle
+ */
+function getCaAgent(): Agent {
+  if (!caAgent) {
+    caAgent = new Agent({ ca: [...rootCertificates, config.github.caBundle], keepAlive: true });
+  }
+  return caAgent;
+}
+
+/**
+ * fetch() for GitHub API requests. The built-in fetch can not be given
+ * extra CAs, so with GITHUB_CA_BUNDLE set HTTPS requests go through the
+ * https module instead and the reply is wrapped in a Response.
+ */
+export async function githubFetch(url: string, init: GitHubRequestInit): Promise<Response> {
+  if (!config.github.caBundle || !url.startsWith('https:')) {
+    return fetch(url, init);
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      { method: init.method, headers: init.headers, agent: getCaAgent(), signal: init.signal },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('error', reject);
+        res.on('end', () => {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(res.headers)) {
+            if (value !== undefined) {
+              headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+            }
+          }
+          const status = res.statusCode ?? 500;
+          // Responses with these statuses may not have a body
+          const body = [204, 205, 304].includes(status) ? null : Buffer.concat(chunks);
+          resolve(new Response(body, { status, headers }));
+        });
+      }
+    );
+
+    req.on('error', reject);
+    if (init.body) {
+      req.write(init.body);
+    }
+    req.end();
+  });
+}
@@ -0,0 +1,90 @@
+import { config } from '../config';
+
+export interface RateLimitInfo {
+  cost: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter for the given (zero-based) attempt
+ */
+export function backoffDelay(attempt: number): number {
+  const { baseDelayMs, maxDelayMs } = config.github.retry;
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Tracks GitHub's GraphQL point budget from the rateLimit block returned
+ * with each query, and slows down or pauses requests when it runs low
+ */
+export class RateLimitTracker {
+  private remaining: number | null = null;
+  private resetAt: Date | null = null;
+  private lastCost = 1;
+  private totalCost = 0;
+
+  /**
+   * Record the rateLimit block from a query response
+   */
+  record(info: RateLimitInfo): void {
+    this.remaining = info.remaining;
+    this.resetAt = new Date(info.resetAt);
+    this.lastCost = Math.max(info.cost, 1);
+    this.totalCost += info.cost;
+  }
+
+  /**
+   * Total points spent since the tracker was created
+   */
+  getPointsUsed(): number {
+    return this.totalCost;
+  }
+
+  getRemaining(): number | null {
+    return this.remaining;
+  }
+
+  getResetAt(): Date | null {
+    return this.resetAt;
+  }
+
+  /**
+   * Wait before the next request if the remaining budget is low
+   */
+  async waitForBudget(): Promise<void> {
+    if (this.remaining === null || !this.resetAt) {
+      return;
+    }
+
+    const msUntilReset = this.resetAt.getTime() - Date.now();
+    if (msUntilReset <= 0) {
+      return;
+    }
+
+    const { pauseBelow, throttleBelow } = config.github.rateLimit;
+
+    if (this.remaining < pauseBelow) {
+      console.warn(
+        `⚠ GitHub rate limit nearly exhausted (${this.remaining} points left), pausing until ${this.resetAt.toISOString()}`
+      );
+      await sleep(msUntilReset + 1000);
+      this.remaining = null;
+      return;
+    }
+
+    if (this.remaining < throttleBelow) {
+      // Spread the remaining requests evenly over the time left in the window
+      const requestsLeft = Math.max(Math.floor(this.remaining / this.lastCost), 1);
+      const delay = Math.min(msUntilReset / requestsLeft, config.github.retry.maxDelayMs);
+      await sleep(delay);
+    }
+  }
+}
+
+export const rateLimitTracker = new RateLimitTracker();
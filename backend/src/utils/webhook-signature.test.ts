@@ -0,0 +1,36 @@
+import { readFileSync } from 'fs';
+import { verifyWebhookSignature } from './webhook-signature';
+import { webhookFixturePath } from '../test/helpers';
+
+// A projects_v2_item delivery exactly as received, and the
+// X-Hub-Signature-256 header it arrived with
+const SECRET = 'fixture-secret';
+const SIGNATURE = 'sha256=9ab0135939584362831443b7a39920fd355fd92d6209ce88b803c3e53b806488';
+const rawBody = readFileSync(webhookFixturePath('projects_v2_item.edited.json'));
+
+describe('verifyWebhookSignature', () => {
+  it('accepts the signature GitHub sent with the delivery', () => {
+    expect(verifyWebhookSignature(SECRET, rawBody, SIGNATURE)).toBe(true);
+  });
+
+  it('rejects a delivery signed with another secret', () => {
+    expect(verifyWebhookSignature('another-secret', rawBody, SIGNATURE)).toBe(false);
+  });
+
+  it('rejects a body that was altered after signing', () => {
+    const altered = Buffer.from(rawBody.toString('utf-8').replace('"In Review"', '"Done"'));
+    expect(verifyWebhookSignature(SECRET, altered, SIGNATURE)).toBe(false);
+  });
+
+  it('rejects the body re-serialized from parsed JSON', () => {
+    const reserialized = Buffer.from(JSON.stringify(JSON.parse(rawBody.toString('utf-8')), null, 2));
+    expect(verifyWebhookSignature(SECRET, reserialized, SIGNATURE)).toBe(false);
+  });
+
+  it('rejects a missing or malformed header', () => {
+    expect(verifyWebhookSignature(SECRET, rawBody, undefined)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, rawBody, '')).toBe(false);
+    expect(verifyWebhookSignature(SECRET, rawBody, SIGNATURE.replace('sha256=', 'sha1='))).toBe(false);
+    expect(verifyWebhookSignature(SECRET, rawBody, SIGNATURE.slice(0, -2))).toBe(false);
+  });
+});
@@ -0,0 +1,22 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Check a delivery's X-Hub-Signature-256 header ("sha256=<hex>") against
+ * the HMAC of the raw request body
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: Buffer,
+  signature: string | undefined
+): boolean {
+  if (!signature || !signature.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`
+  );
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -3,41 +3,77 @@ import { StatsCard } from './components/StatsCard';
 import { TasksTable } from './components/TasksTable';
 import { TrendChart } from './components/TrendChart';
 import { AssigneeBreakdown } from './components/AssigneeBreakdown';
+import { SprintChart } from './components/SprintChart';
+import { PullRequestReport } from './components/PullRequestReport';
+import { RemovedTasks } from './components/RemovedTasks';
 import { apiService } from './services/api';
 import {
   StatsResponse,
   TasksResponse,
+  RemovedTasksResponse,
   HistoryResponse,
+  SprintsResponse,
+  TaskTreeResponse,
+  PullRequestMetricsResponse,
   PollingStatus,
+  Project,
 } from './types';
 import './index.css';
 
 function App() {
   const [stats, setStats] = useState<StatsResponse | null>(null);
   const [tasks, setTasks] = useState<TasksResponse | null>(null);
+  const [taskTree, setTaskTree] = useState<TaskTreeResponse | null>(null);
   const [overdueTasks, setOverdueTasks] = useState<TasksResponse | null>(null);
+  const [removedTasks, setRemovedTasks] = useState<RemovedTasksResponse | null>(null);
   const [history, setHistory] = useState<HistoryResponse | null>(null);
+  const [sprints, setSprints] = useState<SprintsResponse | null>(null);
+  const [pullRequests, setPullRequests] = useState<PullRequestMetricsResponse | null>(null);
   const [pollingStatus, setPollingStatus] = useState<PollingStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [selectedProject, setSelectedProject] = useState<string>('');
 
   const fetchData = async () => {
     try {
       setError(null);
-      const [statsData, tasksData, overdueData, historyData, pollingData] = await Promise.all([
-        apiService.getStats(),
-        apiService.getTasks(),
-        apiService.getOverdueTasks(),
-        apiService.getHistory(30),
+      const project = selectedProject || undefined;
+      const [
+        statsData,
+        tasksData,
+        treeData,
+        overdueData,
+        removedData,
+        historyData,
+        sprintsData,
+        pullRequestData,
+        pollingData,
+        projectsData,
+      ] = await Promise.all([
+        apiService.getStats(project),
+        apiService.getTasks({ project }),
+        apiService.getTaskTree(project),
+        apiService.getOverdueTasks(project),
+        apiService.getRemovedTasks(project),
+        apiService.getHistory(30, project),
+        apiService.getSprints(10, project),
+        apiService.getPullRequestMetrics(12, project),
         apiService.getPollingStatus(),
+        apiService.getProjects(),
       ]);
 
+      setProjects(projectsData.projects);
       setStats(statsData);
       setTasks(tasksData);
+      setTaskTree(treeData);
       setOverdueTasks(overdueData);
+      setRemovedTasks(removedData);
       setHistory(historyData);
+      setSprints(sprintsData);
+      setPullRequests(pullRequestData);
       setPollingStatus(pollingData);
       setLastUpdated(new Date());
     } catch (err) {
@@ -69,7 +105,7 @@ function App() {
     // Auto-refresh every 30 seconds
     const interval = setInterval(fetchData, 30000);
     return () => clearInterval(interval);
-  }, []);
+  }, [selectedProject]);
 
   if (loading) {
     return (
@@ -107,18 +143,42 @@ function App() {
               )}
               {pollingStatus.lastRunTime && (
                 <span style={{ marginLeft: '20px', color: '#6b7280' }}>
-                  Last run: {new Date(pollingStatus.lastRunTime).toLocaleString()} -{' '}
+                  Last run: {new Date(pollingStatus.lastRunTime).toLocaleString()}
+                  {pollingStatus.lastRunMode && ` (${pollingStatus.lastRunMode})`} -{' '}
                   {pollingStatus.lastRunStatus === 'success' ? '✓' : '✗'}
                 </span>
               )}
+              {pollingStatus.lastRunPointsUsed !== null && (
+                <span style={{ marginLeft: '20px', color: '#6b7280' }}>
+                  API points used: {pollingStatus.lastRunPointsUsed}
+                  {pollingStatus.rateLimitRemaining !== null &&
+                    ` (${pollingStatus.rateLimitRemaining} remaining)`}
+                </span>
+              )}
+            </div>
+            <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
+              {projects.length > 1 && (
+                <select
+                  value={selectedProject}
+                  onChange={(e) => setSelectedProject(e.target.value)}
+                  style={{ padding: '6px 8px', borderRadius: '4px', border: '1px solid #d1d5db' }}
+                >
+                  <option value="">All projects</option>
+                  {projects.map((p) => (
+                    <option key={p.slug} value={p.slug}>
+                      {p.title ? `${p.title} (${p.slug})` : p.slug}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                className="btn btn-primary"
+                onClick={handleRefresh}
+                disabled={refreshing}
+              >
+                {refreshing ? 'Refreshing...' : 'Refresh Now'}
+              </button>
             </div>
-            <button
-              className="btn btn-primary"
-              onClick={handleRefresh}
-              disabled={refreshing}
-            >
-              {refreshing ? 'Refreshing...' : 'Refresh Now'}
-            </button>
           </div>
         </div>
       )}
@@ -151,6 +211,18 @@ function App() {
               label="Beyond due date"
               type="overdue"
             />
+            <StatsCard
+              title="Draft Tasks"
+              value={stats.stats.drafts}
+              label="Draft issues on the board"
+              type="info"
+            />
+            <StatsCard
+              title="No Linked PR"
+              value={stats.stats.noLinkedPR}
+              label="Open issues without a PR"
+              type="warning"
+            />
             <StatsCard
               title="No Tech Handoff ETA"
               value={stats.stats.noTechHandoffETA}
@@ -224,11 +296,27 @@ function App() {
         </div>
       )}
 
+      {/* Sprint Report */}
+      {sprints && sprints.count > 0 && (
+        <div className="card">
+          <h2>Sprint Report</h2>
+          <SprintChart data={sprints.sprints} />
+        </div>
+      )}
+
+      {/* Pull Requests */}
+      {pullRequests && (pullRequests.open > 0 || pullRequests.timeToMerge.count > 0) && (
+        <div className="card">
+          <h2>Pull Requests</h2>
+          <PullRequestReport data={pullRequests} />
+        </div>
+      )}
+
       {/* Overdue Tasks */}
       {overdueTasks && overdueTasks.count > 0 && (
         <div className="card">
           <h2>⚠️ Overdue Tasks ({overdueTasks.count})</h2>
-          <TasksTable tasks={overdueTasks.tasks} showOverdueOnly={true} />
+          <TasksTable tasks={overdueTasks.tasks} showOverdueOnly={true} editable={true} onTaskUpdated={fetchData} onBulkJobFinished={fetchData} />
         </div>
       )}
 
@@ -236,7 +324,15 @@ function App() {
       {tasks && (
         <div className="card">
           <h2>All Tasks ({tasks.count})</h2>
-          <TasksTable tasks={tasks.tasks} />
+          <TasksTable tasks={tasks.tasks} tree={taskTree?.tree} editable={true} onTaskUpdated={fetchData} onBulkJobFinished={fetchData} />
+        </div>
+      )}
+
+      {/* Removed Tasks */}
+      {removedTasks && removedTasks.count > 0 && (
+        <div className="card">
+          <h2>Removed from Project ({removedTasks.count})</h2>
+          <RemovedTasks tasks={removedTasks.tasks} onRestored={fetchData} />
         </div>
       )}
 
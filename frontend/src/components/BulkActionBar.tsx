@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useId } from 'react';
+import { BulkAction, BulkJob } from '../types';
+import { apiService } from '../services/api';
+import { withWriteToken, errorMessage } from '../services/write-access';
+
+const ACTIONS: Record<BulkAction, { label: string; placeholder: string }> = {
+  setPriority: { label: 'Set priority', placeholder: 'Priority (empty clears)' },
+  setStatus: { label: 'Set status', placeholder: 'Status (empty clears)' },
+  setDueDate: { label: 'Set ETA', placeholder: '' },
+  assign: { label: 'Assign', placeholder: 'GitHub username' },
+  unassign: { label: 'Unassign', placeholder: 'Username (empty removes everyone)' },
+  addLabel: { label: 'Add label', placeholder: 'Label name' },
+};
+
+const POLL_INTERVAL_MS = 1000;
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  suggestions: Partial<Record<BulkAction, string[]>>;
+  onClearSelection: () => void;
+  onFinished?: () => void; // A job finished changing tasks
+}
+
+const controlStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  fontSize: '0.875rem',
+  borderRadius: '6px',
+  border: '1px solid #d1d5db',
+  backgroundColor: '#fff',
+};
+
+const buttonStyle: React.CSSProperties = {
+  ...controlStyle,
+  cursor: 'pointer',
+  fontWeight: 500,
+};
+
+/**
+ * Applies one action to the selected tasks as a bulk job, follows the job
+ * until it finishes and offers to undo it
+ */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedIds,
+  suggestions,
+  onClearSelection,
+  onFinished,
+}) => {
+  const [action, setAction] = useState<BulkAction>('setPriority');
+  const [value, setValue] = useState('');
+  const [job, setJob] = useState<BulkJob | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listId = `bulk-suggestions-${useId()}`;
+
+  const running = job?.status === 'running';
+
+  useEffect(() => {
+    if (!job || job.status !== 'running') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const latest = await apiService.getBulkJob(job.id);
+        setJob(latest);
+        if (latest.status !== 'running') {
+          onFinished?.();
+        }
+      } catch (err) {
+        setError(`Could not check bulk job ${job.id}: ${errorMessage(err)}`);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [job]);
+
+  const start = async (request: () => Promise<BulkJob>) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      setJob(await withWriteToken(request));
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const apply = () =>
+    start(() => apiService.createBulkJob(action, value.trim() || null, selectedIds));
+
+  const undo = () => job && start(() => apiService.undoBulkJob(job.id));
+
+  if (selectedIds.length === 0 && !job) {
+    return null;
+  }
+
+  const failedItems = (job?.items || []).filter((item) => item.status === 'failed');
+
+  return (
+    <div
+      style={{
+        padding: '12px 16px',
+        marginBottom: '16px',
+        backgroundColor: '#eff6ff',
+        border: '1px solid #bfdbfe',
+        borderRadius: '6px',
+        fontSize: '0.875rem',
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center' }}>
+        <strong>{selectedIds.length} selected</strong>
+        <select
+          value={action}
+          onChange={(e) => {
+            setAction(e.target.value as BulkAction);
+            setValue('');
+          }}
+          style={{ ...controlStyle, cursor: 'pointer' }}
+        >
+          {Object.entries(ACTIONS).map(([key, { label }]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type={action === 'setDueDate' ? 'date' : 'text'}
+          value={value}
+          list={listId}
+          placeholder={ACTIONS[action].placeholder}
+          onChange={(e) => setValue(e.target.value)}
+          style={{ ...controlStyle, minWidth: '220px' }}
+        />
+        <datalist id={listId}>
+          {(suggestions[action] || []).map((option) => (
+            <option key={option} value={option} />
+          ))}
+        </datalist>
+        <button
+          onClick={apply}
+          disabled={selectedIds.length === 0 || submitting || running}
+          style={{ ...buttonStyle, backgroundColor: '#2563eb', color: '#fff', border: 'none' }}
+        >
+          Apply
+        </button>
+        <button onClick={onClearSelection} style={buttonStyle}>
+          Clear Selection
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ marginTop: '8px', color: '#dc2626' }}>{error}</div>
+      )}
+
+      {job && (
+        <div style={{ marginTop: '8px', color: '#374151' }}>
+          <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+            <span>
+              {job.action === 'undo' ? `Undo of job ${job.undoOf}` : `Job ${job.id}`}:{' '}
+              {running ? 'running' : job.status} · {job.succeeded} succeeded, {job.skipped} skipped,{' '}
+              {job.failed} failed of {job.total}
+            </span>
+            {!running && job.action !== 'undo' && job.undoneBy === null && job.succeeded > 0 && (
+              <button onClick={undo} disabled={submitting} style={buttonStyle}>
+                Undo
+              </button>
+            )}
+            {!running && (
+              <span onClick={() => setJob(null)} style={{ cursor: 'pointer', color: '#6b7280' }}>
+                ×
+              </span>
+            )}
+          </div>
+          {failedItems.length > 0 && (
+            <ul style={{ margin: '6px 0 0', paddingLeft: '20px', color: '#dc2626' }}>
+              {failedItems.map((item) => (
+                <li key={item.projectItemId}>
+                  {item.githubId || item.projectItemId}: {item.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
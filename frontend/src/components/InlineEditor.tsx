@@ -0,0 +1,92 @@
+import React, { useState, useId } from 'react';
+
+interface InlineEditorProps {
+  value: string; // Current value, as edited
+  type?: 'text' | 'date';
+  suggestions?: string[];
+  placeholder?: string;
+  onSave: (value: string) => Promise<void>;
+  children: React.ReactNode; // Shown when not editing
+}
+
+/**
+ * Table cell content that turns into an input on click. Enter or leaving
+ * the input saves, Escape cancels.
+ */
+export const InlineEditor: React.FC<InlineEditorProps> = ({
+  value,
+  type = 'text',
+  suggestions = [],
+  placeholder,
+  onSave,
+  children,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const [saving, setSaving] = useState(false);
+  const listId = `suggestions-${useId()}`;
+
+  const startEditing = () => {
+    setDraft(value);
+    setEditing(true);
+  };
+
+  const save = async () => {
+    if (draft === value) {
+      setEditing(false);
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(draft);
+      setEditing(false);
+    } catch {
+      // The caller reports the error; keep the input open to retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div onClick={startEditing} title="Click to edit" style={{ cursor: 'pointer', minHeight: '1.25rem' }}>
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <input
+        autoFocus
+        type={type}
+        value={draft}
+        list={suggestions.length > 0 ? listId : undefined}
+        placeholder={placeholder}
+        disabled={saving}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') save();
+          if (e.key === 'Escape') setEditing(false);
+        }}
+        style={{
+          width: '100%',
+          minWidth: '110px',
+          padding: '4px 6px',
+          fontSize: '0.875rem',
+          border: '1px solid #2563eb',
+          borderRadius: '4px',
+          opacity: saving ? 0.6 : 1,
+        }}
+      />
+      {suggestions.length > 0 && (
+        <datalist id={listId}>
+          {suggestions.map((s) => (
+            <option key={s} value={s} />
+          ))}
+        </datalist>
+      )}
+    </>
+  );
+};
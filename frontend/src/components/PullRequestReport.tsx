@@ -0,0 +1,129 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { PullRequestMetricsResponse, DurationSummary, Task } from '../types';
+import { StatsCard } from './StatsCard';
+
+interface PullRequestReportProps {
+  data: PullRequestMetricsResponse;
+}
+
+const formatHours = (hours: number | null): string => {
+  if (hours === null) return '-';
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round((hours / 24) * 10) / 10}d`;
+};
+
+const durationLabel = (summary: DurationSummary): string =>
+  summary.count > 0
+    ? `Median over ${summary.count} PRs (avg ${formatHours(summary.averageHours)})`
+    : 'No pull requests yet';
+
+const PullRequestList: React.FC<{ tasks: Task[]; empty: string }> = ({ tasks, empty }) => {
+  if (tasks.length === 0) {
+    return <p style={{ color: '#6b7280', fontSize: '0.875rem' }}>{empty}</p>;
+  }
+
+  return (
+    <table>
+      <thead>
+        <tr>
+          <th>Pull Request</th>
+          <th>Author</th>
+          <th>Reviewers</th>
+          <th>Opened</th>
+        </tr>
+      </thead>
+      <tbody>
+        {tasks.map((task) => (
+          <tr key={task.id}>
+            <td>
+              <div style={{ fontWeight: 500 }}>{task.title}</div>
+              <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                {task.repository}#{task.number}
+              </div>
+            </td>
+            <td style={{ fontSize: '0.875rem' }}>{task.author || '-'}</td>
+            <td style={{ fontSize: '0.875rem' }}>
+              {task.pullRequest && task.pullRequest.requestedReviewers.length > 0
+                ? task.pullRequest.requestedReviewers.join(', ')
+                : '-'}
+            </td>
+            <td style={{ fontSize: '0.875rem' }}>{new Date(task.createdAt).toLocaleDateString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export const PullRequestReport: React.FC<PullRequestReportProps> = ({ data }) => {
+  const chartData = data.mergedPerWeek.map((week) => ({
+    ...week,
+    label: new Date(week.weekStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+  }));
+
+  return (
+    <div>
+      <div className="stats-grid">
+        <StatsCard
+          title="Waiting on Review"
+          value={data.waitingOnReview.length}
+          label={`Of ${data.open - data.drafts} open PRs ready for review`}
+          type="warning"
+        />
+        <StatsCard
+          title="Failing CI"
+          value={data.failingChecks.length}
+          label="Open PRs with failing checks"
+          type="critical"
+        />
+        <StatsCard
+          title="Time to First Review"
+          value={formatHours(data.timeToFirstReview.medianHours)}
+          label={durationLabel(data.timeToFirstReview)}
+          type="info"
+        />
+        <StatsCard
+          title="Time to Merge"
+          value={formatHours(data.timeToMerge.medianHours)}
+          label={durationLabel(data.timeToMerge)}
+          type="info"
+        />
+      </div>
+
+      <h3 style={{ marginTop: '20px' }}>Merged per Week (Last {data.weeks} Weeks)</h3>
+      <ResponsiveContainer width="100%" height={220}>
+        <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+          <Tooltip />
+          <Bar dataKey="merged" fill="#2563eb" name="Merged" />
+        </BarChart>
+      </ResponsiveContainer>
+
+      {data.reviewLoad.length > 0 && (
+        <>
+          <h3 style={{ marginTop: '20px' }}>Review Load</h3>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+            {data.reviewLoad.map(({ reviewer, pending }) => (
+              <span key={reviewer} className="badge open">
+                {reviewer}: {pending}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      <h3 style={{ marginTop: '20px' }}>Waiting on Review</h3>
+      <div style={{ overflowX: 'auto' }}>
+        <PullRequestList tasks={data.waitingOnReview} empty="No pull requests are waiting on review" />
+      </div>
+
+      <h3 style={{ marginTop: '20px' }}>Failing CI</h3>
+      <div style={{ overflowX: 'auto' }}>
+        <PullRequestList tasks={data.failingChecks} empty="No open pull requests have failing checks" />
+      </div>
+    </div>
+  );
+};
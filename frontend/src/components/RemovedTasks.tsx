@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { RemovedTask } from '../types';
+import { apiService } from '../services/api';
+import { withWriteToken, errorMessage } from '../services/write-access';
+
+interface RemovedTasksProps {
+  tasks: RemovedTask[];
+  onRestored?: () => void;
+}
+
+/**
+ * Tasks whose item left the board, with a way to bring back the ones a
+ * sync removed by mistake
+ */
+export const RemovedTasks: React.FC<RemovedTasksProps> = ({ tasks, onRestored }) => {
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const restore = async (task: RemovedTask) => {
+    setRestoring(task.id);
+    setError(null);
+    try {
+      await withWriteToken(() => apiService.restoreTask(task.id));
+      onRestored?.();
+    } catch (err) {
+      setError(`Could not restore ${task.repository ? `${task.repository}#${task.number}` : task.title}: ${errorMessage(err)}`);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <div>
+      {error && (
+        <div style={{ marginBottom: '12px', color: '#dc2626', fontSize: '0.875rem' }}>{error}</div>
+      )}
+      <table>
+        <thead>
+          <tr>
+            <th>Task</th>
+            <th>Project</th>
+            <th>Status</th>
+            <th>Removed</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {tasks.map((task) => (
+            <tr key={task.id}>
+              <td>
+                <div style={{ fontWeight: 500 }}>{task.title}</div>
+                <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                  {task.repository ? `${task.repository}#${task.number}` : 'Draft'}
+                </div>
+              </td>
+              <td style={{ fontSize: '0.875rem' }}>{task.project || '-'}</td>
+              <td style={{ fontSize: '0.875rem' }}>{task.status || '-'}</td>
+              <td style={{ fontSize: '0.875rem' }}>{new Date(task.removedFromProjectAt).toLocaleString()}</td>
+              <td>
+                <button
+                  onClick={() => restore(task)}
+                  disabled={restoring !== null}
+                  style={{
+                    padding: '4px 10px',
+                    fontSize: '0.75rem',
+                    borderRadius: '6px',
+                    border: '1px solid #d1d5db',
+                    backgroundColor: '#fff',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {restoring === task.id ? 'Restoring...' : 'Restore'}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { SprintReport } from '../types';
+
+interface SprintChartProps {
+  data: SprintReport[];
+}
+
+export const SprintChart: React.FC<SprintChartProps> = ({ data }) => {
+  const chartData = data.map((sprint) => ({
+    ...sprint,
+    label: sprint.isCurrent ? `${sprint.title} (current)` : sprint.title,
+    completionPercent: Math.round(sprint.completionRate * 100),
+  }));
+
+  return (
+    <div>
+      <ResponsiveContainer width="100%" height={300}>
+        <ComposedChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis yAxisId="count" tick={{ fontSize: 12 }} />
+          <YAxis
+            yAxisId="percent"
+            orientation="right"
+            domain={[0, 100]}
+            tick={{ fontSize: 12 }}
+            tickFormatter={(value) => `${value}%`}
+          />
+          <Tooltip />
+          <Legend />
+          <Bar yAxisId="count" dataKey="committed" fill="#2563eb" name="Committed" />
+          <Bar yAxisId="count" dataKey="completed" fill="#16a34a" name="Completed" />
+          <Bar yAxisId="count" dataKey="spilledOver" fill="#ea580c" name="Spilled Over" />
+          <Line
+            yAxisId="percent"
+            type="monotone"
+            dataKey="completionPercent"
+            stroke="#7c3aed"
+            name="Completion %"
+            strokeWidth={2}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div style={{ overflowX: 'auto', marginTop: '20px' }}>
+        <table>
+          <thead>
+            <tr>
+              <th>Sprint</th>
+              <th>Dates</th>
+              <th>Committed</th>
+              <th>Completed</th>
+              <th>Remaining</th>
+              <th>Spilled Over</th>
+              <th>Completion</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.map((sprint) => (
+              <tr key={`${sprint.project}:${sprint.iterationId}`}>
+                <td style={{ fontWeight: 500 }}>
+                  {sprint.title}
+                  {sprint.isCurrent && <span className="badge open" style={{ marginLeft: '8px' }}>Current</span>}
+                </td>
+                <td style={{ fontSize: '0.875rem' }}>
+                  {new Date(sprint.startDate).toLocaleDateString()} - {new Date(sprint.endDate).toLocaleDateString()}
+                </td>
+                <td>{sprint.committed}</td>
+                <td>{sprint.completed}</td>
+                <td>{sprint.remaining}</td>
+                <td>{sprint.spilledOver}</td>
+                <td>{Math.round(sprint.completionRate * 100)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
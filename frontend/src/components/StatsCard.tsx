@@ -2,7 +2,7 @@ import React from 'react';
 
 interface StatsCardProps {
   title: string;
-  value: number;
+  value: number | string;
   label: string;
   type: 'total' | 'open' | 'closed' | 'overdue' | 'warning' | 'critical' | 'info';
 }
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { TaskTreeNode } from '../types';
+
+interface TaskTreeProps {
+  nodes: TaskTreeNode[];
+}
+
+const formatDate = (dateStr: string | null): string => {
+  if (!dateStr) return '-';
+  return new Date(dateStr).toLocaleDateString();
+};
+
+const ProgressBar: React.FC<{ percent: number }> = ({ percent }) => (
+  <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+    <div style={{ width: '80px', height: '8px', backgroundColor: '#e5e7eb', borderRadius: '4px' }}>
+      <div
+        style={{
+          width: `${percent}%`,
+          height: '100%',
+          backgroundColor: percent === 100 ? '#16a34a' : '#2563eb',
+          borderRadius: '4px',
+        }}
+      />
+    </div>
+    <span style={{ fontSize: '0.75rem', color: '#374151' }}>{percent}%</span>
+  </div>
+);
+
+export const TaskTree: React.FC<TaskTreeProps> = ({ nodes }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Parents first, so epics are at the top
+  const sorted = [...nodes].sort(
+    (a, b) => Number(b.rollup !== null) - Number(a.rollup !== null)
+  );
+
+  const toggle = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  };
+
+  const renderNode = (node: TaskTreeNode, depth: number): React.ReactNode[] => {
+    const { task, rollup, children } = node;
+    const isOpen = expanded.has(task.id);
+
+    const rows: React.ReactNode[] = [
+      <tr key={task.id}>
+        <td style={{ paddingLeft: `${12 + depth * 24}px` }}>
+          <div style={{ display: 'flex', alignItems: 'flex-start', gap: '6px' }}>
+            <span
+              onClick={() => children.length > 0 && toggle(task.id)}
+              style={{
+                width: '16px',
+                cursor: children.length > 0 ? 'pointer' : 'default',
+                color: '#6b7280',
+                userSelect: 'none',
+              }}
+            >
+              {children.length > 0 ? (isOpen ? '▾' : '▸') : ''}
+            </span>
+            <div>
+              <div style={{ fontWeight: rollup ? 600 : 500 }}>{task.title}</div>
+              <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                {task.type === 'DRAFT_ISSUE' ? 'Draft' : `${task.repository}#${task.number}`}
+              </div>
+            </div>
+          </div>
+        </td>
+        <td>
+          <span className={`badge ${task.state.toLowerCase()}`}>{task.state}</span>
+        </td>
+        <td>{task.status || '-'}</td>
+        <td>{rollup ? <ProgressBar percent={rollup.percentComplete} /> : '-'}</td>
+        <td style={{ fontSize: '0.875rem' }}>
+          {rollup ? `${rollup.completedSubIssues} / ${rollup.subIssues}` : '-'}
+        </td>
+        <td>
+          {rollup && rollup.overdueChildren > 0 ? (
+            <span className="badge overdue">{rollup.overdueChildren}</span>
+          ) : rollup ? (
+            '0'
+          ) : (
+            '-'
+          )}
+        </td>
+        <td style={{ fontSize: '0.875rem' }}>{rollup ? rollup.unassignedChildren : '-'}</td>
+        <td style={{ fontSize: '0.875rem' }}>
+          {rollup ? formatDate(rollup.latestChildDueDate) : formatDate(task.dueDate)}
+        </td>
+      </tr>,
+    ];
+
+    if (isOpen) {
+      for (const child of children) {
+        rows.push(...renderNode(child, depth + 1));
+      }
+    }
+
+    return rows;
+  };
+
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table>
+        <thead>
+          <tr>
+            <th>Title</th>
+            <th>State</th>
+            <th>Status</th>
+            <th>Progress</th>
+            <th>Sub-issues Done</th>
+            <th>Overdue Children</th>
+            <th>Unassigned Children</th>
+            <th>ETA (latest child)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.length === 0 ? (
+            <tr>
+              <td colSpan={8} style={{ textAlign: 'center', padding: '40px', color: '#6b7280' }}>
+                No tasks found
+              </td>
+            </tr>
+          ) : (
+            sorted.flatMap((node) => renderNode(node, 0))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
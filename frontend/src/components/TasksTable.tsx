@@ -1,23 +1,92 @@
-import React, { useState, useMemo } from 'react';
-import { Task } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Task, TaskTreeNode, TaskUpdate, DevelopmentState } from '../types';
+import { apiService } from '../services/api';
+import { withWriteToken, errorMessage } from '../services/write-access';
+import { TaskTree } from './TaskTree';
+import { InlineEditor } from './InlineEditor';
+import { BulkActionBar } from './BulkActionBar';
+
+const DEVELOPMENT_STATES: Record<DevelopmentState, { label: string; className: string }> = {
+  NO_PR: { label: 'No PR', className: 'badge' },
+  PR_OPEN: { label: 'PR Open', className: 'badge open' },
+  IN_REVIEW: { label: 'In Review', className: 'badge merged' },
+  MERGED: { label: 'Merged, Issue Open', className: 'badge closed' },
+};
 
 interface TasksTableProps {
   tasks: Task[];
+  tree?: TaskTreeNode[]; // Enables the parent/sub-issue tree view
   showOverdueOnly?: boolean;
+  editable?: boolean; // Inline editing and bulk actions on selected rows
+  onTaskUpdated?: (task: Task) => void;
+  onBulkJobFinished?: () => void;
 }
 
-export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly = false }) => {
-  const [sortField, setSortField] = useState<keyof Task>('createdAt');
+export const TasksTable: React.FC<TasksTableProps> = ({
+  tasks: loadedTasks,
+  tree,
+  showOverdueOnly = false,
+  editable = false,
+  onTaskUpdated,
+  onBulkJobFinished,
+}) => {
+  // A Task property, or "field:<name>" for a project field column
+  const [sortField, setSortField] = useState<string>('createdAt');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [treeView, setTreeView] = useState(false);
   const [filterState, setFilterState] = useState<string>('all');
   const [filterType, setFilterType] = useState<string>('all');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterPriority, setFilterPriority] = useState<string>('all');
   const [filterRepository, setFilterRepository] = useState<string>('all');
   const [filterAssignee, setFilterAssignee] = useState<string>('all');
+  const [filterLabel, setFilterLabel] = useState<string>('all');
+  const [filterMilestone, setFilterMilestone] = useState<string>('all');
+  const [filterAuthor, setFilterAuthor] = useState<string>('all');
+  const [filterIssueType, setFilterIssueType] = useState<string>('all');
+  const [filterDevelopment, setFilterDevelopment] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [itemsPerPage, setItemsPerPage] = useState<number>(25);
+  const [fieldColumns, setFieldColumns] = useState<string[]>([]);
+  // Edited tasks, shown until the next load includes the change
+  const [updatedTasks, setUpdatedTasks] = useState<Record<string, Task>>({});
+  const [editError, setEditError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setUpdatedTasks({});
+    // Keep the selection across reloads, minus tasks that are gone
+    const ids = new Set(loadedTasks.map((task) => task.id));
+    setSelectedIds((current) => new Set([...current].filter((id) => ids.has(id))));
+  }, [loadedTasks]);
+
+  const tasks = useMemo(
+    () => loadedTasks.map((task) => updatedTasks[task.id] ?? task),
+    [loadedTasks, updatedTasks]
+  );
+
+  /**
+   * Save an edit to GitHub. Throws so the editor stays open when the save
+   * fails.
+   */
+  const saveTask = async (task: Task, update: TaskUpdate): Promise<void> => {
+    try {
+      const updated = await withWriteToken(() => apiService.updateTask(task.id, update));
+      setUpdatedTasks((current) => ({ ...current, [task.id]: updated }));
+      setEditError(null);
+      onTaskUpdated?.(updated);
+    } catch (err) {
+      setEditError(`Could not update ${task.title}: ${errorMessage(err)}`);
+      throw err;
+    }
+  };
+
+  const toggleSelected = (ids: string[], selected: boolean) => {
+    const next = new Set(selectedIds);
+    ids.forEach((id) => (selected ? next.add(id) : next.delete(id)));
+    setSelectedIds(next);
+  };
 
   const isOverdue = (task: Task): boolean => {
     if (!task.dueDate || task.state !== 'OPEN') return false;
@@ -25,17 +94,27 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
   };
 
   // Extract unique values for filters
-  const { repositories, statuses, assignees, priorities } = useMemo(() => {
+  const { repositories, statuses, assignees, priorities, labels, milestones, authors, issueTypes, fieldNames } = useMemo(() => {
     const repos = new Set<string>();
     const stats = new Set<string>();
     const assigns = new Set<string>();
     const priors = new Set<string>();
+    const labs = new Set<string>();
+    const miles = new Set<string>();
+    const auths = new Set<string>();
+    const types = new Set<string>();
+    const names = new Set<string>();
 
     tasks.forEach((task) => {
       if (task.repository) repos.add(task.repository);
       if (task.status) stats.add(task.status);
       if (task.priority) priors.add(task.priority);
       task.assignees.forEach((a) => assigns.add(a));
+      (task.labels || []).forEach((l) => labs.add(l));
+      if (task.milestone) miles.add(task.milestone);
+      if (task.author) auths.add(task.author);
+      if (task.issueType) types.add(task.issueType);
+      Object.keys(task.fields || {}).forEach((name) => names.add(name));
     });
 
     return {
@@ -43,9 +122,21 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
       statuses: Array.from(stats).sort(),
       assignees: Array.from(assigns).sort(),
       priorities: Array.from(priors).sort(),
+      labels: Array.from(labs).sort(),
+      milestones: Array.from(miles).sort(),
+      authors: Array.from(auths).sort(),
+      issueTypes: Array.from(types).sort(),
+      fieldNames: Array.from(names).sort(),
     };
   }, [tasks]);
 
+  const getSortValue = (task: Task, field: string) => {
+    if (field.startsWith('field:')) {
+      return task.fields?.[field.slice('field:'.length)] ?? null;
+    }
+    return task[field as keyof Task];
+  };
+
   const filteredTasks = useMemo(() => {
     let filtered = tasks;
 
@@ -85,6 +176,30 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
       }
     }
 
+    if (filterLabel !== 'all') {
+      filtered = filtered.filter((task) => (task.labels || []).includes(filterLabel));
+    }
+
+    if (filterMilestone !== 'all') {
+      if (filterMilestone === 'none') {
+        filtered = filtered.filter((task) => !task.milestone);
+      } else {
+        filtered = filtered.filter((task) => task.milestone === filterMilestone);
+      }
+    }
+
+    if (filterAuthor !== 'all') {
+      filtered = filtered.filter((task) => task.author === filterAuthor);
+    }
+
+    if (filterIssueType !== 'all') {
+      filtered = filtered.filter((task) => task.issueType === filterIssueType);
+    }
+
+    if (filterDevelopment !== 'all') {
+      filtered = filtered.filter((task) => task.developmentState === filterDevelopment);
+    }
+
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(
@@ -92,21 +207,22 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
           task.title.toLowerCase().includes(query) ||
           task.number.toString().includes(query) ||
           task.repository?.toLowerCase().includes(query) ||
-          task.assignees.some((a) => a.toLowerCase().includes(query))
+          task.assignees.some((a) => a.toLowerCase().includes(query)) ||
+          (task.labels || []).some((l) => l.toLowerCase().includes(query))
       );
     }
 
     return filtered;
-  }, [tasks, filterState, filterType, filterStatus, filterPriority, filterRepository, filterAssignee, searchQuery, showOverdueOnly]);
+  }, [tasks, filterState, filterType, filterStatus, filterPriority, filterRepository, filterAssignee, filterLabel, filterMilestone, filterAuthor, filterIssueType, filterDevelopment, searchQuery, showOverdueOnly]);
 
   const sortedTasks = useMemo(() => {
     return [...filteredTasks].sort((a, b) => {
-      let aVal = a[sortField];
-      let bVal = b[sortField];
+      let aVal = getSortValue(a, sortField);
+      let bVal = getSortValue(b, sortField);
 
       // Handle null values
-      if (aVal === null) return 1;
-      if (bVal === null) return -1;
+      if (aVal === null || aVal === undefined) return 1;
+      if (bVal === null || bVal === undefined) return -1;
 
       // Convert dates to timestamps for comparison
       if (sortField === 'createdAt' || sortField === 'updatedAt' || sortField === 'dueDate') {
@@ -130,9 +246,9 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
   // Reset to page 1 when filters change
   useMemo(() => {
     setCurrentPage(1);
-  }, [filterState, filterType, filterStatus, filterPriority, filterRepository, filterAssignee, searchQuery]);
+  }, [filterState, filterType, filterStatus, filterPriority, filterRepository, filterAssignee, filterLabel, filterMilestone, filterAuthor, filterIssueType, filterDevelopment, searchQuery]);
 
-  const handleSort = (field: keyof Task) => {
+  const handleSort = (field: string) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
@@ -147,6 +263,42 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
     return date.toLocaleDateString();
   };
 
+  const renderPriority = (task: Task) =>
+    task.priority ? (
+      <span 
+        className="badge" 
+        style={{
+          backgroundColor: task.priority === 'P0' ? '#fee2e2' : task.priority === 'P1' ? '#fef3c7' : '#e5e7eb',
+          color: task.priority === 'P0' ? '#991b1b' : task.priority === 'P1' ? '#92400e' : '#374151'
+        }}
+      >
+        {task.priority}
+      </span>
+    ) : (
+      '-'
+    );
+
+  const renderAssignees = (task: Task) =>
+    task.assignees.length > 0 ? (
+      <div style={{ fontSize: '0.875rem' }}>
+        {task.assignees.map((a, i) => (
+          <div key={i}>@{a}</div>
+        ))}
+      </div>
+    ) : (
+      <span style={{ color: '#6b7280' }}>Unassigned</span>
+    );
+
+  const renderDueDate = (task: Task) =>
+    task.dueDate ? (
+      <span className={isOverdue(task) ? 'badge overdue' : ''}>
+        {formatDate(task.dueDate)}
+        {isOverdue(task) && ' (Overdue)'}
+      </span>
+    ) : (
+      '-'
+    );
+
   const clearAllFilters = () => {
     setFilterState('all');
     setFilterType('all');
@@ -154,6 +306,11 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
     setFilterPriority('all');
     setFilterRepository('all');
     setFilterAssignee('all');
+    setFilterLabel('all');
+    setFilterMilestone('all');
+    setFilterAuthor('all');
+    setFilterIssueType('all');
+    setFilterDevelopment('all');
     setSearchQuery('');
   };
 
@@ -164,14 +321,46 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
     filterPriority !== 'all' ||
     filterRepository !== 'all' ||
     filterAssignee !== 'all' ||
+    filterLabel !== 'all' ||
+    filterMilestone !== 'all' ||
+    filterAuthor !== 'all' ||
+    filterIssueType !== 'all' ||
+    filterDevelopment !== 'all' ||
     searchQuery !== '';
 
+  const viewToggle = tree && !showOverdueOnly && (
+    <button
+      onClick={() => setTreeView(!treeView)}
+      style={{
+        padding: '8px 16px',
+        fontSize: '0.875rem',
+        borderRadius: '6px',
+        border: '1px solid #d1d5db',
+        backgroundColor: treeView ? '#2563eb' : '#fff',
+        color: treeView ? '#fff' : '#374151',
+        cursor: 'pointer',
+        whiteSpace: 'nowrap',
+      }}
+    >
+      {treeView ? 'Table View' : 'Epic Tree View'}
+    </button>
+  );
+
+  if (treeView && tree) {
+    return (
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '16px' }}>{viewToggle}</div>
+        <TaskTree nodes={tree} />
+      </div>
+    );
+  }
+
   return (
     <div>
       {!showOverdueOnly && (
         <div style={{ marginBottom: '20px' }}>
           {/* Search Bar */}
-          <div style={{ marginBottom: '16px' }}>
+          <div style={{ display: 'flex', gap: '12px', marginBottom: '16px' }}>
             <input
               type="text"
               placeholder="Search tasks by title, number, repository, or assignee..."
@@ -186,6 +375,7 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
                 outline: 'none',
               }}
             />
+            {viewToggle}
           </div>
 
           {/* Filters Row */}
@@ -236,6 +426,7 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
                 <option value="all">All</option>
                 <option value="ISSUE">Issue</option>
                 <option value="PULL_REQUEST">Pull Request</option>
+                <option value="DRAFT_ISSUE">Draft Issue</option>
               </select>
             </div>
 
@@ -337,6 +528,164 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
               </select>
             </div>
 
+            {labels.length > 0 && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <label style={{ fontSize: '0.875rem', color: '#6b7280', fontWeight: 500 }}>Label:</label>
+                <select
+                  value={filterLabel}
+                  onChange={(e) => setFilterLabel(e.target.value)}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '0.875rem',
+                    borderRadius: '6px',
+                    border: '1px solid #d1d5db',
+                    backgroundColor: '#fff',
+                    cursor: 'pointer',
+                    maxWidth: '180px',
+                  }}
+                >
+                  <option value="all">All</option>
+                  {labels.map((item) => (
+                    <option key={item} value={item}>
+                      {item}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {milestones.length > 0 && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <label style={{ fontSize: '0.875rem', color: '#6b7280', fontWeight: 500 }}>Milestone:</label>
+                <select
+                  value={filterMilestone}
+                  onChange={(e) => setFilterMilestone(e.target.value)}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '0.875rem',
+                    borderRadius: '6px',
+                    border: '1px solid #d1d5db',
+                    backgroundColor: '#fff',
+                    cursor: 'pointer',
+                    maxWidth: '180px',
+                  }}
+                >
+                  <option value="all">All</option>
+                  <option value="none">No Milestone</option>
+                  {milestones.map((item) => (
+                    <option key={item} value={item}>
+                      {item}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {authors.length > 0 && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <label style={{ fontSize: '0.875rem', color: '#6b7280', fontWeight: 500 }}>Author:</label>
+                <select
+                  value={filterAuthor}
+                  onChange={(e) => setFilterAuthor(e.target.value)}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '0.875rem',
+                    borderRadius: '6px',
+                    border: '1px solid #d1d5db',
+                    backgroundColor: '#fff',
+                    cursor: 'pointer',
+                    maxWidth: '180px',
+                  }}
+                >
+                  <option value="all">All</option>
+                  {authors.map((item) => (
+                    <option key={item} value={item}>
+                      @{item}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {issueTypes.length > 0 && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <label style={{ fontSize: '0.875rem', color: '#6b7280', fontWeight: 500 }}>Issue Type:</label>
+                <select
+                  value={filterIssueType}
+                  onChange={(e) => setFilterIssueType(e.target.value)}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '0.875rem',
+                    borderRadius: '6px',
+                    border: '1px solid #d1d5db',
+                    backgroundColor: '#fff',
+                    cursor: 'pointer',
+                    maxWidth: '180px',
+                  }}
+                >
+                  <option value="all">All</option>
+                  {issueTypes.map((item) => (
+                    <option key={item} value={item}>
+                      {item}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <label style={{ fontSize: '0.875rem', color: '#6b7280', fontWeight: 500 }}>Development:</label>
+              <select
+                value={filterDevelopment}
+                onChange={(e) => setFilterDevelopment(e.target.value)}
+                style={{
+                  padding: '6px 12px',
+                  fontSize: '0.875rem',
+                  borderRadius: '6px',
+                  border: '1px solid #d1d5db',
+                  backgroundColor: '#fff',
+                  cursor: 'pointer',
+                }}
+              >
+                <option value="all">All</option>
+                {Object.entries(DEVELOPMENT_STATES).map(([value, { label }]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {fieldNames.length > 0 && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <label style={{ fontSize: '0.875rem', color: '#6b7280', fontWeight: 500 }}>Columns:</label>
+                <select
+                  value=""
+                  onChange={(e) => setFieldColumns([...fieldColumns, e.target.value])}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '0.875rem',
+                    borderRadius: '6px',
+                    border: '1px solid #d1d5db',
+                    backgroundColor: '#fff',
+                    cursor: 'pointer',
+                    maxWidth: '180px',
+                  }}
+                >
+                  <option value="" disabled>
+                    Add field...
+                  </option>
+                  {fieldNames
+                    .filter((name) => !fieldColumns.includes(name))
+                    .map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            )}
+
             {hasActiveFilters && (
               <button
                 onClick={clearAllFilters}
@@ -401,10 +750,44 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
         </div>
       )}
 
+      {editable && (
+        <BulkActionBar
+          selectedIds={[...selectedIds]}
+          suggestions={{
+            setPriority: priorities,
+            setStatus: statuses,
+            assign: assignees,
+            unassign: assignees,
+            addLabel: labels,
+          }}
+          onClearSelection={() => setSelectedIds(new Set())}
+          onFinished={onBulkJobFinished}
+        />
+      )}
+
+      {editError && (
+        <div className="error" style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <span>{editError}</span>
+          <span onClick={() => setEditError(null)} style={{ cursor: 'pointer' }}>
+            ×
+          </span>
+        </div>
+      )}
+
       <div style={{ overflowX: 'auto' }}>
         <table>
           <thead>
             <tr>
+              {editable && (
+                <th style={{ width: '32px' }}>
+                  <input
+                    type="checkbox"
+                    title="Select all on this page"
+                    checked={paginatedTasks.length > 0 && paginatedTasks.every((task) => selectedIds.has(task.id))}
+                    onChange={(e) => toggleSelected(paginatedTasks.map((task) => task.id), e.target.checked)}
+                  />
+                </th>
+              )}
               <th onClick={() => handleSort('title')} style={{ cursor: 'pointer' }}>
                 Title {sortField === 'title' && (sortDirection === 'asc' ? '↑' : '↓')}
               </th>
@@ -414,6 +797,9 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
               <th onClick={() => handleSort('state')} style={{ cursor: 'pointer' }}>
                 State {sortField === 'state' && (sortDirection === 'asc' ? '↑' : '↓')}
               </th>
+              <th onClick={() => handleSort('developmentState')} style={{ cursor: 'pointer' }}>
+                Development {sortField === 'developmentState' && (sortDirection === 'asc' ? '↑' : '↓')}
+              </th>
               <th onClick={() => handleSort('status')} style={{ cursor: 'pointer' }}>
                 Status {sortField === 'status' && (sortDirection === 'asc' ? '↑' : '↓')}
               </th>
@@ -430,21 +816,57 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
               <th onClick={() => handleSort('createdAt')} style={{ cursor: 'pointer' }}>
                 Created {sortField === 'createdAt' && (sortDirection === 'asc' ? '↑' : '↓')}
               </th>
+              {fieldColumns.map((name) => (
+                <th key={name} onClick={() => handleSort(`field:${name}`)} style={{ cursor: 'pointer' }}>
+                  {name} {sortField === `field:${name}` && (sortDirection === 'asc' ? '↑' : '↓')}
+                  <span
+                    title="Remove column"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setFieldColumns(fieldColumns.filter((c) => c !== name));
+                    }}
+                    style={{ marginLeft: '6px', color: '#9ca3af' }}
+                  >
+                    ×
+                  </span>
+                </th>
+              ))}
             </tr>
           </thead>
           <tbody>
             {paginatedTasks.length === 0 ? (
               <tr>
-                <td colSpan={9} style={{ textAlign: 'center', padding: '40px', color: '#6b7280' }}>
+                <td colSpan={10 + fieldColumns.length + (editable ? 1 : 0)} style={{ textAlign: 'center', padding: '40px', color: '#6b7280' }}>
                   No tasks found
                 </td>
               </tr>
             ) : (
               paginatedTasks.map((task) => (
                 <tr key={task.id}>
+                  {editable && (
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(task.id)}
+                        onChange={(e) => toggleSelected([task.id], e.target.checked)}
+                      />
+                    </td>
+                  )}
                   <td>
                     <div style={{ fontWeight: 500 }}>{task.title}</div>
-                    <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>#{task.number}</div>
+                    <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                      {task.type === 'DRAFT_ISSUE' ? 'Draft' : `#${task.number}`}
+                      {task.milestone && ` · ${task.milestone}`}
+                    </div>
+                    {task.labels && task.labels.length > 0 && (
+                      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '4px' }}>
+                        {task.labels.map((l) => (
+                          <span key={l} className="badge" style={{ fontSize: '0.7rem' }}>
+                            {l}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </td>
                   <td>
                     <span className="badge">{task.type.replace('_', ' ')}</span>
@@ -454,45 +876,97 @@ export const TasksTable: React.FC<TasksTableProps> = ({ tasks, showOverdueOnly =
                       {task.state}
                     </span>
                   </td>
-                  <td>{task.status || '-'}</td>
                   <td>
-                    {task.priority ? (
-                      <span 
-                        className="badge" 
-                        style={{
-                          backgroundColor: task.priority === 'P0' ? '#fee2e2' : task.priority === 'P1' ? '#fef3c7' : '#e5e7eb',
-                          color: task.priority === 'P0' ? '#991b1b' : task.priority === 'P1' ? '#92400e' : '#374151'
-                        }}
-                      >
-                        {task.priority}
+                    {task.developmentState ? (
+                      <span className={DEVELOPMENT_STATES[task.developmentState].className}>
+                        {DEVELOPMENT_STATES[task.developmentState].label}
                       </span>
                     ) : (
                       '-'
                     )}
+                    {task.linkedPullRequests && task.linkedPullRequests.length > 0 && (
+                      <div style={{ fontSize: '0.75rem', marginTop: '4px' }}>
+                        {task.linkedPullRequests.map((pr) => (
+                          <div key={pr.githubId}>
+                            <a
+                              href={pr.url}
+                              target="_blank"
+                              rel="noreferrer"
+                              style={{ color: pr.state === 'CLOSED' ? '#9ca3af' : '#2563eb' }}
+                            >
+                              {pr.githubId.split('/').pop()}
+                            </a>{' '}
+                            <span style={{ color: '#6b7280' }}>
+                              {pr.state === 'OPEN' && pr.isDraft ? 'draft' : pr.state.toLowerCase()}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td>
+                    {editable ? (
+                      <InlineEditor
+                        value={task.status || ''}
+                        suggestions={statuses}
+                        onSave={(value) => saveTask(task, { status: value || null })}
+                      >
+                        {task.status || '-'}
+                      </InlineEditor>
+                    ) : (
+                      task.status || '-'
+                    )}
+                  </td>
+                  <td>
+                    {editable ? (
+                      <InlineEditor
+                        value={task.priority || ''}
+                        suggestions={priorities}
+                        onSave={(value) => saveTask(task, { priority: value || null })}
+                      >
+                        {renderPriority(task)}
+                      </InlineEditor>
+                    ) : (
+                      renderPriority(task)
+                    )}
                   </td>
                   <td style={{ fontSize: '0.875rem' }}>{task.repository || '-'}</td>
                   <td>
-                    {task.assignees.length > 0 ? (
-                      <div style={{ fontSize: '0.875rem' }}>
-                        {task.assignees.map((a, i) => (
-                          <div key={i}>@{a}</div>
-                        ))}
-                      </div>
+                    {editable ? (
+                      <InlineEditor
+                        value={task.assignees.join(', ')}
+                        placeholder="user1, user2"
+                        onSave={(value) =>
+                          saveTask(task, {
+                            assignees: value.split(',').map((a) => a.trim()).filter(Boolean),
+                          })
+                        }
+                      >
+                        {renderAssignees(task)}
+                      </InlineEditor>
                     ) : (
-                      <span style={{ color: '#6b7280' }}>Unassigned</span>
+                      renderAssignees(task)
                     )}
                   </td>
                   <td>
-                    {task.dueDate ? (
-                      <span className={isOverdue(task) ? 'badge overdue' : ''}>
-                        {formatDate(task.dueDate)}
-                        {isOverdue(task) && ' (Overdue)'}
-                      </span>
+                    {editable ? (
+                      <InlineEditor
+                        type="date"
+                        value={task.dueDate ? task.dueDate.split('T')[0] : ''}
+                        onSave={(value) => saveTask(task, { dueDate: value || null })}
+                      >
+                        {renderDueDate(task)}
+                      </InlineEditor>
                     ) : (
-                      '-'
+                      renderDueDate(task)
                     )}
                   </td>
                   <td style={{ fontSize: '0.875rem' }}>{formatDate(task.createdAt)}</td>
+                  {fieldColumns.map((name) => (
+                    <td key={name} style={{ fontSize: '0.875rem' }}>
+                      {task.fields?.[name] || '-'}
+                    </td>
+                  ))}
                 </tr>
               ))
             )}
@@ -2,12 +2,24 @@ import axios from 'axios';
 import {
   StatsResponse,
   TasksResponse,
+  RemovedTasksResponse,
   HistoryResponse,
   PollingStatus,
+  ProjectsResponse,
+  SprintsResponse,
+  TaskTreeResponse,
+  PullRequestMetricsResponse,
+  Task,
+  TaskUpdate,
+  BulkAction,
+  BulkJob,
 } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
+// The backend's API_WRITE_TOKEN, entered once per browser for editing tasks
+const WRITE_TOKEN_KEY = 'ghmonitoring.writeToken';
+
 const api = axios.create({
   baseURL: API_BASE_URL,
   headers: {
@@ -15,12 +27,26 @@ const api = axios.create({
   },
 });
 
+const writeHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem(WRITE_TOKEN_KEY) || ''}`,
+});
+
 export const apiService = {
   /**
-   * Get current statistics
+   * Get monitored projects
    */
-  async getStats(): Promise<StatsResponse> {
-    const response = await api.get<StatsResponse>('/stats');
+  async getProjects(): Promise<ProjectsResponse> {
+    const response = await api.get<ProjectsResponse>('/projects');
+    return response.data;
+  },
+
+  /**
+   * Get current statistics, optionally for a single project
+   */
+  async getStats(project?: string): Promise<StatsResponse> {
+    const response = await api.get<StatsResponse>('/stats', {
+      params: { project },
+    });
     return response.data;
   },
 
@@ -29,15 +55,33 @@ export const apiService = {
    */
   async getTasks(filters?: {
     state?: string;
+    type?: string;
     overdue?: boolean;
     repository?: string;
     assignee?: string;
+    label?: string;
+    milestone?: string;
+    author?: string;
+    issueType?: string;
+    developmentState?: string;
+    project?: string;
+    fields?: { [fieldName: string]: string };
   }): Promise<TasksResponse> {
     const params = new URLSearchParams();
+    if (filters?.project) params.append('project', filters.project);
     if (filters?.state) params.append('state', filters.state);
+    if (filters?.type) params.append('type', filters.type);
     if (filters?.overdue) params.append('overdue', 'true');
     if (filters?.repository) params.append('repository', filters.repository);
     if (filters?.assignee) params.append('assignee', filters.assignee);
+    if (filters?.label) params.append('label', filters.label);
+    if (filters?.milestone) params.append('milestone', filters.milestone);
+    if (filters?.author) params.append('author', filters.author);
+    if (filters?.issueType) params.append('issueType', filters.issueType);
+    if (filters?.developmentState) params.append('developmentState', filters.developmentState);
+    Object.entries(filters?.fields || {}).forEach(([name, value]) => {
+      params.append(`field[${name}]`, value);
+    });
 
     const response = await api.get<TasksResponse>(`/tasks?${params.toString()}`);
     return response.data;
@@ -46,19 +90,121 @@ export const apiService = {
   /**
    * Get overdue tasks
    */
-  async getOverdueTasks(): Promise<TasksResponse> {
-    const response = await api.get<TasksResponse>('/tasks/overdue');
+  async getOverdueTasks(project?: string): Promise<TasksResponse> {
+    const response = await api.get<TasksResponse>('/tasks/overdue', {
+      params: { project },
+    });
+    return response.data;
+  },
+
+  /**
+   * Get tasks arranged by parent issue, with rollups for parents
+   */
+  async getTaskTree(project?: string): Promise<TaskTreeResponse> {
+    const response = await api.get<TaskTreeResponse>('/tasks/tree', {
+      params: { project },
+    });
+    return response.data;
+  },
+
+  /**
+   * Get tasks removed from their board, most recently removed first
+   */
+  async getRemovedTasks(project?: string): Promise<RemovedTasksResponse> {
+    const response = await api.get<RemovedTasksResponse>('/tasks/removed', {
+      params: { project },
+    });
     return response.data;
   },
 
   /**
    * Get historical data
    */
-  async getHistory(days: number = 30): Promise<HistoryResponse> {
-    const response = await api.get<HistoryResponse>(`/history?days=${days}`);
+  async getHistory(days: number = 30, project?: string): Promise<HistoryResponse> {
+    const response = await api.get<HistoryResponse>('/history', {
+      params: { days, project },
+    });
+    return response.data;
+  },
+
+  /**
+   * Get per-sprint committed vs. completed report
+   */
+  async getSprints(limit: number = 10, project?: string): Promise<SprintsResponse> {
+    const response = await api.get<SprintsResponse>('/sprints', {
+      params: { limit, project },
+    });
+    return response.data;
+  },
+
+  /**
+   * Get pull request review queue, CI health and throughput
+   */
+  async getPullRequestMetrics(weeks: number = 12, project?: string): Promise<PullRequestMetricsResponse> {
+    const response = await api.get<PullRequestMetricsResponse>('/pull-requests/metrics', {
+      params: { weeks, project },
+    });
     return response.data;
   },
 
+  /**
+   * Set a task's status, priority, due date, assignees or labels on GitHub.
+   * Null clears a field.
+   */
+  async updateTask(id: string, update: TaskUpdate): Promise<Task> {
+    const response = await api.patch<{ task: Task }>(`/tasks/${encodeURIComponent(id)}`, update, {
+      headers: writeHeaders(),
+    });
+    return response.data.task;
+  },
+
+  /**
+   * Bring back a removed task that is on the board on GitHub (requires the write token)
+   */
+  async restoreTask(id: string): Promise<Task> {
+    const response = await api.post<{ task: Task }>(`/tasks/${encodeURIComponent(id)}/restore`, null, {
+      headers: writeHeaders(),
+    });
+    return response.data.task;
+  },
+
+  /**
+   * Start a bulk job applying one action to many tasks
+   */
+  async createBulkJob(action: BulkAction, value: string | null, taskIds: string[]): Promise<BulkJob> {
+    const response = await api.post<{ job: BulkJob }>(
+      '/bulk-jobs',
+      { action, value, taskIds },
+      { headers: writeHeaders() }
+    );
+    return response.data.job;
+  },
+
+  /**
+   * Get a bulk job with the result of each task
+   */
+  async getBulkJob(id: number): Promise<BulkJob> {
+    const response = await api.get<{ job: BulkJob }>(`/bulk-jobs/${id}`);
+    return response.data.job;
+  },
+
+  /**
+   * Start a job restoring what a bulk job changed
+   */
+  async undoBulkJob(id: number): Promise<BulkJob> {
+    const response = await api.post<{ job: BulkJob }>(`/bulk-jobs/${id}/undo`, null, {
+      headers: writeHeaders(),
+    });
+    return response.data.job;
+  },
+
+  /**
+   * Remember the write token used by the editing endpoints
+   */
+  setWriteToken(token: string): void {
+    localStorage.setItem(WRITE_TOKEN_KEY, token);
+  },
+
   /**
    * Trigger manual refresh
    */
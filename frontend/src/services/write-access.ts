@@ -0,0 +1,30 @@
+import axios from 'axios';
+import { apiService } from './api';
+
+/**
+ * Run a request to an editing endpoint, asking for the write token and
+ * trying once more when it is missing or wrong
+ */
+export async function withWriteToken<T>(request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (err) {
+    const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+    if (status !== 401) {
+      throw err;
+    }
+    const token = window.prompt('Enter the write token (API_WRITE_TOKEN) to edit tasks on GitHub');
+    if (!token) {
+      throw err;
+    }
+    apiService.setWriteToken(token.trim());
+    return request();
+  }
+}
+
+/**
+ * The API's explanation of a failed request, or the error itself
+ */
+export function errorMessage(err: unknown): string {
+  return axios.isAxiosError(err) ? err.response?.data?.message || err.message : String(err);
+}
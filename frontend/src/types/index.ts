@@ -3,6 +3,7 @@
 export interface Task {
   id: string;
   githubId: string;
+  project: string | null; // "org/number"
   title: string;
   number: number;
   type: 'ISSUE' | 'PULL_REQUEST' | 'DRAFT_ISSUE';
@@ -14,7 +15,121 @@ export interface Task {
   createdAt: string;
   updatedAt: string;
   dueDate: string | null;
+  estimate: number | null;
+  fields: { [fieldName: string]: string }; // Every project field value
+  iterationId: string | null;
+  labels: string[];
+  milestone: string | null;
+  author: string | null;
+  issueType: string | null;
+  closedAt: string | null;
+  mergedAt: string | null;
   addedToProjectAt: string | null;
+  parentGithubId: string | null; // Parent issue, for sub-issues
+  subIssuesTotal: number;
+  subIssuesCompleted: number;
+  pullRequest: PullRequestDetails | null; // Pull requests only
+  linkedPullRequests: LinkedPullRequest[]; // Pull requests that close this issue
+  developmentState: DevelopmentState | null; // Open issues only
+}
+
+// A task whose item is no longer on its board
+export interface RemovedTask extends Task {
+  removedFromProjectAt: string;
+}
+
+// Editable task fields for PATCH /api/tasks/:id; null clears a field
+export interface TaskUpdate {
+  status?: string | null;
+  priority?: string | null;
+  dueDate?: string | null; // YYYY-MM-DD
+  assignees?: string[];
+  addLabels?: string[];
+  removeLabels?: string[];
+}
+
+export type BulkAction = 'setPriority' | 'setStatus' | 'setDueDate' | 'assign' | 'unassign' | 'addLabel';
+
+export interface BulkJobItem {
+  projectItemId: string;
+  githubId: string | null;
+  status: 'pending' | 'succeeded' | 'skipped' | 'failed'; // Skipped items already had the value
+  update: TaskUpdate | null;
+  undo: TaskUpdate | null;
+  error: string | null;
+  finishedAt: string | null;
+}
+
+export interface BulkJob {
+  id: number;
+  action: BulkAction | 'undo';
+  value: string | null;
+  status: 'running' | 'completed' | 'partial' | 'failed' | 'interrupted';
+  undoOf: number | null;
+  undoneBy: number | null;
+  total: number;
+  succeeded: number;
+  skipped: number;
+  failed: number;
+  createdAt: string;
+  finishedAt: string | null;
+  items?: BulkJobItem[];
+}
+
+export type DevelopmentState = 'NO_PR' | 'PR_OPEN' | 'IN_REVIEW' | 'MERGED';
+
+export interface LinkedPullRequest {
+  githubId: string;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  isDraft: boolean;
+  url: string;
+}
+
+export interface PullRequestDetails {
+  isDraft: boolean;
+  reviewDecision: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+  requestedReviewers: string[];
+  reviewCount: number;
+  firstReviewAt: string | null;
+  mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+  checksState: 'SUCCESS' | 'FAILURE' | 'ERROR' | 'PENDING' | 'EXPECTED' | null;
+}
+
+// Health of a parent issue; percent complete covers every sub-issue on
+// GitHub, the other figures only direct children on the board
+export interface TaskRollup {
+  subIssues: number;
+  completedSubIssues: number;
+  percentComplete: number;
+  childrenOnBoard: number;
+  overdueChildren: number;
+  unassignedChildren: number;
+  latestChildDueDate: string | null;
+}
+
+export interface TaskTreeNode {
+  task: Task;
+  rollup: TaskRollup | null;
+  children: TaskTreeNode[];
+}
+
+export interface TaskTreeResponse {
+  count: number;
+  tree: TaskTreeNode[];
+}
+
+export interface Project {
+  id: number;
+  org: string;
+  number: number;
+  slug: string;
+  nodeId: string;
+  title: string | null;
+}
+
+export interface ProjectsResponse {
+  count: number;
+  projects: Project[];
 }
 
 export interface TaskStats {
@@ -22,6 +137,8 @@ export interface TaskStats {
   open: number;
   closed: number;
   overdue: number;
+  drafts: number;
+  noLinkedPR: number;
   noTechHandoffETA: number;
   noTechHandoffETAByPriority: {
     p0: number;
@@ -49,6 +166,11 @@ export interface TasksResponse {
   tasks: Task[];
 }
 
+export interface RemovedTasksResponse {
+  count: number;
+  tasks: RemovedTask[];
+}
+
 export interface HistoricalDataPoint {
   date: string;
   totalTasks: number;
@@ -62,11 +184,55 @@ export interface HistoryResponse {
   data: HistoricalDataPoint[];
 }
 
+export interface SprintReport {
+  iterationId: string;
+  project: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+  isCurrent: boolean;
+  committed: number;
+  completed: number;
+  remaining: number;
+  spilledOver: number;
+  completionRate: number;
+}
+
+export interface SprintsResponse {
+  count: number;
+  sprints: SprintReport[];
+}
+
+export interface DurationSummary {
+  count: number;
+  medianHours: number | null;
+  averageHours: number | null;
+}
+
+export interface PullRequestMetricsResponse {
+  weeks: number;
+  open: number;
+  drafts: number;
+  waitingOnReview: Task[];
+  failingChecks: Task[];
+  reviewLoad: Array<{ reviewer: string; pending: number }>;
+  timeToFirstReview: DurationSummary;
+  timeToMerge: DurationSummary;
+  mergedPerWeek: Array<{ weekStart: string; merged: number }>;
+}
+
 export interface PollingStatus {
   isRunning: boolean;
   isScheduled: boolean;
   cronSchedule: string;
+  projects: string[];
+  incremental: boolean;
+  fullSyncCronSchedule: string | null;
+  lastRunMode: 'full' | 'incremental' | null;
   lastRunTime: string | null;
   lastRunStatus: 'success' | 'error' | null;
   lastRunError: string | null;
+  lastRunPointsUsed: number | null;
+  rateLimitRemaining: number | null;
+  rateLimitResetAt: string | null;
 }